@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// Stand-in for the endpoints the bulk-data fixture doesn't cover: counts return
+// `apiTerms`, and every search string is kept as openFDA would read it.
+let apiTerms: { term: string; count: number }[] = [];
+const apiSearches: (string | null)[] = [];
+const api = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const url = new URL(req.url);
+    apiSearches.push(url.searchParams.get("search"));
+    if (url.searchParams.has("count")) return Response.json({ meta: { last_updated: "2026-10-01" }, results: apiTerms });
+    return Response.json({ meta: { last_updated: "2026-10-01", results: { total: 0, skip: 0, limit: 1 } }, results: [] });
+  },
+});
+
+// index.ts reads its configuration when loaded: point it at a scratch bulk-data
+// database, away from the user's config, and at the stand-in API.
+const dir = mkdtempSync(join(tmpdir(), "fda-devices-test-"));
+Object.assign(process.env, {
+  FDA_DEVICES_CONFIG: join(dir, "config.json"),
+  FDA_DEVICES_ALIASES: join(dir, "aliases.json"),
+  FDA_DEVICES_BULK_DB: join(dir, "bulk.db"),
+  OPENFDA_BASE_URL: `http://127.0.0.1:${api.port}/device`,
+  OPENFDA_MAX_RETRIES: "0",
+  OPENFDA_RATE_LIMIT: "0",
+});
+const { compileExpression, dateRangePart, importBulkData, parseExpression, queryBulkIndex, queryOpenFDA, resolveCompany } = await import("./index.ts");
+
+afterAll(() => api.stop(true));
+
+const clause = (field: string, value: string) => ({ kind: "clause" as const, field, value });
+const a = clause("a", "1");
+const b = clause("b", "2");
+const c = clause("c", "3");
+
+// ─── Expression Parser ───────────────────────────────────────────────────────
+
+describe("parseExpression", () => {
+  for (const adjacent of ["and", "or"] as const) {
+    test(`AND binds tighter than OR (adjacent ${adjacent})`, () => {
+      expect(parseExpression("a:1 OR b:2 AND c:3", adjacent)).toEqual({ kind: "or", nodes: [a, { kind: "and", nodes: [b, c] }] });
+      expect(parseExpression("a:1 AND b:2 OR c:3", adjacent)).toEqual({ kind: "or", nodes: [{ kind: "and", nodes: [a, b] }, c] });
+    });
+
+    test(`parentheses and NOT (adjacent ${adjacent})`, () => {
+      expect(parseExpression("(a:1 OR b:2) AND c:3", adjacent)).toEqual({ kind: "and", nodes: [{ kind: "or", nodes: [a, b] }, c] });
+      expect(parseExpression("NOT a:1 AND b:2", adjacent)).toEqual({ kind: "and", nodes: [{ kind: "not", node: a }, b] });
+    });
+  }
+
+  test("adjacent clauses are ANDed by default", () => {
+    expect(parseExpression("a:1 b:2")).toEqual({ kind: "and", nodes: [a, b] });
+    expect(parseExpression("a:1 b:2 OR c:3")).toEqual({ kind: "or", nodes: [{ kind: "and", nodes: [a, b] }, c] });
+    expect(parseExpression("a:1 OR b:2 c:3")).toEqual({ kind: "or", nodes: [a, { kind: "and", nodes: [b, c] }] });
+  });
+
+  test("adjacent clauses are ORed the way openFDA reads them", () => {
+    expect(parseExpression("a:1 b:2", "or")).toEqual({ kind: "or", nodes: [a, b] });
+    expect(parseExpression("a:1 b:2 AND c:3", "or")).toEqual({ kind: "or", nodes: [a, { kind: "and", nodes: [b, c] }] });
+    expect(parseExpression("(a:1 b:2) AND c:3", "or")).toEqual({ kind: "and", nodes: [{ kind: "or", nodes: [a, b] }, c] });
+  });
+
+  test("phrases, ranges and _exists_", () => {
+    expect(parseExpression('a:"x y" b:[1 TO 2] _missing_:c')).toEqual({
+      kind: "and",
+      nodes: [clause("a", '"x y"'), { kind: "range", field: "b", lo: "1", hi: "2" }, { kind: "exists", missing: true, field: "c" }],
+    });
+  });
+
+  test("malformed input is rejected", () => {
+    expect(() => parseExpression("a:1 AND")).toThrow("Expression ends where a clause was expected.");
+    expect(() => parseExpression("(a:1 OR b:2")).toThrow("Missing closing parenthesis.");
+    expect(() => parseExpression("a:1 and b:2")).toThrow(/needs a field/);
+  });
+});
+
+// ─── Date Conversion ─────────────────────────────────────────────────────────
+
+describe("dates", () => {
+  test("compact-date endpoints get YYYYMMDD", () => {
+    expect(compileExpression("event", parseExpression("date_received:[2024-01-01 TO 2024-03-31]"))).toBe("date_received:[20240101+TO+20240331]");
+    expect(compileExpression("event", parseExpression("date_received:20240105"))).toBe("date_received:[20240105+TO+20240105]");
+    expect(compileExpression("enforcement", parseExpression("report_date:[20240101 TO 2024-06-30]"))).toBe("report_date:[20240101+TO+20240630]");
+    expect(dateRangePart("event", "2024-01-01", "2024-03-31")).toBe("date_received:[20240101+TO+20240331]");
+  });
+
+  test("other endpoints keep YYYY-MM-DD", () => {
+    expect(compileExpression("510k", parseExpression("decision_date:[20240101 TO 2024-06-30]"))).toBe("decision_date:[2024-01-01+TO+2024-06-30]");
+    expect(dateRangePart("510k", "2024-01-01", "2024-03-31")).toBe("decision_date:[2024-01-01+TO+2024-03-31]");
+  });
+
+  test("open ends and bad dates", () => {
+    expect(compileExpression("event", parseExpression("date_received:[* TO 2024-03-31]"))).toBe("date_received:[19000101+TO+20240331]");
+    expect(() => compileExpression("event", parseExpression("date_received:[2024-1-1 TO *]"))).toThrow(/is not a date/);
+  });
+});
+
+// ─── Bulk Data Index ─────────────────────────────────────────────────────────
+
+describe("bulk-data index", () => {
+  beforeAll(async () => {
+    const dump = (endpoint: string, results: Record<string, unknown>[]) => {
+      const file = join(dir, `device-${endpoint}-0001-of-0001.json`);
+      writeFileSync(file, JSON.stringify({ meta: { last_updated: "2026-10-01" }, results }));
+      return file;
+    };
+    const files = [
+      dump("510k", [
+        { k_number: "K200001", applicant: "Medtronic, Inc.", decision_date: "2020-03-01" },
+        { k_number: "K200002", applicant: "MEDTRONIC INC", decision_date: "2020-07-15" },
+        { k_number: "K190003", applicant: "Medtronic, Inc.", decision_date: "2019-05-01" },
+        { k_number: "K200004", applicant: "Medtronic Vascular", decision_date: "2020-04-01" },
+        { k_number: "K200005", applicant: "Acme Corp", decision_date: "2020-05-01" },
+      ]),
+      dump("event", [
+        { mdr_report_key: "1", date_received: "20240105" },
+        { mdr_report_key: "2", date_received: "20240331" },
+        { mdr_report_key: "3", date_received: "20240401" },
+      ]),
+    ];
+    expect(await importBulkData(files)).toBe(0);
+  });
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const ids = (endpoint: string, parts: string[], field: string) => {
+    const data = queryBulkIndex(endpoint, parts, { limit: 100 });
+    expect(data?.meta?.local).toBe(true);
+    return (data?.results ?? []).map((r) => r[field]).sort();
+  };
+
+  test("company variants are ORed and ANDed with a date range", async () => {
+    const company = await resolveCompany("510k", "Medtronic Incorporated");
+    expect(company.variants).toEqual(["Medtronic, Inc.", "MEDTRONIC INC"]);
+    expect(company.part).toBe('(applicant:"Medtronic Incorporated"+applicant.exact:"Medtronic, Inc."+applicant.exact:"MEDTRONIC INC")');
+    expect(ids("510k", [company.part, dateRangePart("510k", "2020-01-01", "2020-12-31")], "k_number")).toEqual(["K200001", "K200002"]);
+    expect(ids("510k", [company.part], "k_number")).toEqual(["K190003", "K200001", "K200002"]);
+  });
+
+  test("compact dates compare as stored", () => {
+    expect(ids("event", [dateRangePart("event", "2024-01-01", "2024-03-31")], "mdr_report_key")).toEqual(["1", "2"]);
+  });
+
+  test("no match is NOT_FOUND", () => {
+    expect(queryBulkIndex("510k", ['applicant:"Medtronic Incorporated"'], {})?.error?.code).toBe("NOT_FOUND");
+  });
+});
+
+// ─── Company Names ───────────────────────────────────────────────────────────
+
+describe("resolveCompany", () => {
+  test("reserved URL characters in names and variants are escaped", async () => {
+    apiTerms = [{ term: "SMITH & NEPHEW, INC.", count: 3 }, { term: "SMITH AND NEPHEW INC", count: 1 }];
+    const company = await resolveCompany("recall", "Smith & Nephew");
+    expect(company.variants).toEqual(["SMITH & NEPHEW, INC.", "SMITH AND NEPHEW INC"]);
+    expect(company.part).toBe('(recalling_firm:"Smith %26 Nephew"+recalling_firm.exact:"SMITH %26 NEPHEW, INC."+recalling_firm.exact:"SMITH AND NEPHEW INC")');
+
+    await queryOpenFDA("recall", [company.part], { limit: 1 });
+    expect(apiSearches.at(-1)).toBe('(recalling_firm:"Smith & Nephew" recalling_firm.exact:"SMITH & NEPHEW, INC." recalling_firm.exact:"SMITH AND NEPHEW INC")');
+  });
+});
@@ -2,10 +2,77 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { closeSync, createReadStream, existsSync, mkdirSync, openSync, readFileSync, readSync, statSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { createInflateRaw, inflateSync } from "node:zlib";
+import { pipeline, type Readable } from "node:stream";
+import { homedir } from "node:os";
+import { basename, dirname, join, resolve } from "node:path";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+
+// ─── Configuration ───────────────────────────────────────────────────────────
+// Everything is optional. Env vars win over the JSON config file, which is read
+// from FDA_DEVICES_CONFIG or ~/.config/fda-devices/config.json.
+
+interface ServerConfig {
+  apiKey?: string;
+  baseUrl: string;
+  rateLimitPerMinute: number;
+  maxRetries: number;
+  cacheSize: number;
+  cacheDir?: string;
+  aliasesFile: string;
+  synonymsFile: string;
+  pdfDir?: string;
+  bulkDb?: string;
+}
+
+const DEFAULT_BASE_URL = "https://api.fda.gov/device";
+
+const CONFIG_DIR = join(homedir(), ".config", "fda-devices");
+
+function loadConfig(): ServerConfig {
+  const configPath = process.env.FDA_DEVICES_CONFIG ?? join(CONFIG_DIR, "config.json");
+  let file: Record<string, unknown> = {};
+  if (existsSync(configPath)) {
+    try {
+      file = JSON.parse(readFileSync(configPath, "utf8"));
+    } catch (err) {
+      // stdout is the MCP transport — diagnostics must go to stderr
+      console.error(`fda-devices: ignoring unreadable config file ${configPath}: ${err}`);
+    }
+  }
+
+  const apiKey = process.env.OPENFDA_API_KEY ?? (file.api_key as string | undefined);
+  const baseUrl = process.env.OPENFDA_BASE_URL ?? (file.base_url as string | undefined) ?? DEFAULT_BASE_URL;
+  return {
+    apiKey: apiKey?.trim() || undefined,
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    rateLimitPerMinute: readNumber(process.env.OPENFDA_RATE_LIMIT, file.rate_limit_per_minute, 240),
+    maxRetries: readNumber(process.env.OPENFDA_MAX_RETRIES, file.max_retries, 3),
+    cacheSize: readNumber(process.env.OPENFDA_CACHE_SIZE, file.cache_size, 500),
+    cacheDir: process.env.OPENFDA_CACHE_DIR ?? (file.cache_dir as string | undefined),
+    aliasesFile: process.env.FDA_DEVICES_ALIASES ?? (file.aliases_file as string | undefined) ?? join(CONFIG_DIR, "aliases.json"),
+    synonymsFile: process.env.FDA_DEVICES_SYNONYMS ?? (file.synonyms_file as string | undefined) ?? join(CONFIG_DIR, "synonyms.json"),
+    pdfDir: process.env.FDA_DEVICES_PDF_DIR ?? (file.pdf_dir as string | undefined),
+    bulkDb: process.env.FDA_DEVICES_BULK_DB ?? (file.bulk_db as string | undefined),
+  };
+}
+
+function readNumber(envValue: string | undefined, fileValue: unknown, fallback: number): number {
+  const raw = envValue ?? fileValue;
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+const CONFIG = loadConfig();
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
-const BASE_URL = "https://api.fda.gov/device";
+const BASE_URL = CONFIG.baseUrl;
 
 const PANEL_CODES: Record<string, string> = {
   AN: "Anesthesiology",
@@ -37,6 +104,7 @@ const PANEL_LIST = Object.entries(PANEL_CODES)
 
 const K_NUMBER_RE = /^K\d{6,7}$/i;
 const PMA_NUMBER_RE = /^P\d{6}$/i;
+const DEN_NUMBER_RE = /^DEN\d{6}$/i;
 const PRODUCT_CODE_RE = /^[A-Z]{3}$/i;
 const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 
@@ -47,6 +115,9 @@ function validateProductCode(value: string): string | null {
   if (PMA_NUMBER_RE.test(value)) {
     return `"${value}" looks like a PMA number, not a product code. Use classify_device to find the product code, or search_pma with the pma_number parameter.`;
   }
+  if (DEN_NUMBER_RE.test(value)) {
+    return `"${value}" looks like a De Novo number, not a product code. Use classify_device to find the product code, or search_de_novo with the den_number parameter.`;
+  }
   if (!PRODUCT_CODE_RE.test(value)) {
     return `"${value}" is not a valid 3-letter product code. Product codes are exactly 3 letters (e.g., "DXN"). Use classify_device with a query to find the right code.`;
   }
@@ -90,6 +161,16 @@ function linkPMA(pmaNumber: string): string {
   return `https://www.accessdata.fda.gov/scripts/cdrh/cfdocs/cfpma/pma.cfm?id=${pmaNumber}`;
 }
 
+function linkDeNovo(denNumber: string): string {
+  return `https://www.accessdata.fda.gov/scripts/cdrh/cfdocs/cfpmn/denovo.cfm?ID=${denNumber}`;
+}
+
+// De Novo grants are filed in the 510(k) data under DEN numbers, but have
+// their own AccessData page
+function link510kRecord(number: string): string {
+  return DEN_NUMBER_RE.test(number) ? linkDeNovo(number) : link510k(number);
+}
+
 function linkClassification(productCode: string): string {
   return `https://www.accessdata.fda.gov/scripts/cdrh/cfdocs/cfpcd/classification.cfm?ID=${productCode}`;
 }
@@ -98,72 +179,577 @@ function linkRecall(cfresId: string): string {
   return `https://www.accessdata.fda.gov/scripts/cdrh/cfdocs/cfres/res.cfm?id=${cfresId}`;
 }
 
+// Enforcement reports and establishment registrations have no per-record
+// permalink; these are the FDA search pages
+const ENFORCEMENT_REPORT_URL = "https://www.accessdata.fda.gov/scripts/ires/index.cfm";
+const REGISTRATION_LISTING_URL = "https://www.accessdata.fda.gov/scripts/cdrh/cfdocs/cfRL/rl.cfm";
+
 function linkMAUDE(mdrReportKey: string): string {
   return `https://www.accessdata.fda.gov/scripts/cdrh/cfdocs/cfmaude/detail.cfm?mdrfoi__id=${mdrReportKey}`;
 }
 
+// 510(k) summaries sit in per-year folders keyed by the K number's first two
+// digits: K032161 → pdf3, K171234 → pdf17; 1990s and 2000 numbers → pdf
+function link510kSummary(kNumber: string): string {
+  const yy = Number(kNumber.slice(1, 3));
+  const folder = yy === 0 || yy >= 90 ? "pdf" : `pdf${yy}`;
+  return `https://www.accessdata.fda.gov/cdrh_docs/${folder}/${kNumber}.pdf`;
+}
+
+function linkDeNovoSummary(denNumber: string): string {
+  return `https://www.accessdata.fda.gov/cdrh_docs/reviews/${denNumber}.pdf`;
+}
+
+function linkGUDID(primaryDI: string): string {
+  return `https://accessgudid.nlm.nih.gov/devices/${encodeURIComponent(primaryDI)}`;
+}
+
+// Premarket submission numbers from other records (UDI, registrations) — K,
+// DEN and P numbers get their AccessData page; anything else has no link builder yet
+function linkSubmission(submissionNumber: string): string | null {
+  const number = stripDashes(submissionNumber.toUpperCase());
+  if (K_NUMBER_RE.test(number) || DEN_NUMBER_RE.test(number)) return link510kRecord(number);
+  if (PMA_NUMBER_RE.test(number)) return linkPMA(number);
+  return null;
+}
+
 function linkECFR(regulationNumber: string): string {
   const parts = regulationNumber.split(".");
   if (parts.length !== 2) return "";
   return `https://www.ecfr.gov/current/title-21/chapter-I/subchapter-H/part-${parts[0]}/section-${regulationNumber}`;
 }
 
+// ─── Per-call Stats ──────────────────────────────────────────────────────────
+// What the tool call in progress cost: cache hits, throttling, retries and which
+// endpoints were answered from the local bulk-data index. Each
+// tool handler runs inside trackCall() so formatFooter can report on every request
+// the call made, including the classify_device loop and the 510(k) bridge.
+
+interface CallStats {
+  requests: number;
+  cacheAges: number[];
+  throttledMs: number;
+  retries: string[];
+  schemaWarnings: SchemaWarning[];
+  localEndpoints: string[];
+}
+
+const callStats = new AsyncLocalStorage<CallStats>();
+
+function trackCall<A extends unknown[], R>(handler: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return (...args: A) => callStats.run({ requests: 0, cacheAges: [], throttledMs: 0, retries: [], schemaWarnings: [], localEndpoints: [] }, () => handler(...args));
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+function formatCallStats(): string[] {
+  const stats = callStats.getStore();
+  if (!stats) return [];
+  const lines: string[] = [];
+
+  if (stats.cacheAges.length > 0) {
+    const oldest = formatAge(Math.max(...stats.cacheAges));
+    lines.push(stats.requests === 1
+      ? `Cache: served from cache (entry ${oldest} old)`
+      : `Cache: ${stats.cacheAges.length} of ${stats.requests} responses served from cache (oldest entry ${oldest} old)`);
+  }
+
+  const parts: string[] = [];
+  if (stats.throttledMs > 0) parts.push(`throttled ${(stats.throttledMs / 1000).toFixed(1)}s by client rate limiter`);
+  if (stats.retries.length > 0) parts.push(`${stats.retries.length} retr${stats.retries.length === 1 ? "y" : "ies"} (${stats.retries.join(", ")})`);
+  if (parts.length > 0) lines.push(`Client: ${parts.join("; ")}`);
+
+  if (stats.schemaWarnings.length > 0) {
+    const drift = stats.schemaWarnings.map((w) =>
+      w.problem === "missing"
+        ? `${w.endpoint} ${w.field} missing (${w.records} record${w.records === 1 ? "" : "s"})`
+        : `${w.endpoint} ${w.field} is ${w.received}, expected ${w.expected} (${w.records} record${w.records === 1 ? "" : "s"}, shown as N/A)`);
+    lines.push(`Schema drift: ${drift.join("; ")}`);
+  }
+
+  if (stats.localEndpoints.length > 0) {
+    lines.push(`Local data: ${[...new Set(stats.localEndpoints)].join(", ")} answered from the bulk-data index ${CONFIG.bulkDb} — "last updated" is the dump date`);
+  }
+  return lines;
+}
+
+// ─── Rate Limiting & Retry ───────────────────────────────────────────────────
+// One token bucket shared by every tool, so a classify_device fan-out can't
+// starve a concurrent search. Bursts are capped at ten seconds' worth of tokens.
+
+function createTokenBucket(perMinute: number) {
+  const refillPerMs = perMinute / 60_000;
+  const capacity = Math.max(1, Math.ceil(perMinute / 6));
+  let tokens = capacity;
+  let lastRefill = Date.now();
+
+  // Resolves once a token is available; returns how long the caller waited (ms).
+  // Tokens may go negative — each waiter reserves its slot before sleeping.
+  async function take(): Promise<number> {
+    if (perMinute <= 0) return 0;
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+    tokens -= 1;
+    if (tokens >= 0) return 0;
+    const wait = Math.ceil(-tokens / refillPerMs);
+    await sleep(wait);
+    return wait;
+  }
+
+  return { take };
+}
+
+const rateLimiter = createTokenBucket(CONFIG.rateLimitPerMinute);
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with jitter (50–100% of the nominal delay), or the server's
+// Retry-After when it sends one.
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now();
+    if (Number.isFinite(ms) && ms >= 0) return Math.min(ms, RETRY_MAX_MS);
+  }
+  const nominal = Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+  return Math.round(nominal * (0.5 + Math.random() * 0.5));
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
 // ─── API Client ──────────────────────────────────────────────────────────────
 
-interface OpenFDAResponse {
+interface OpenFDAResponse<R = Record<string, unknown>> {
   meta?: {
     results?: { total?: number; skip?: number; limit?: number };
     last_updated?: string;
+    // Set when the bulk-data index answered; last_updated is then the dump date
+    local?: boolean;
   };
-  results?: Record<string, unknown>[];
+  results?: R[];
   error?: { code?: string; message?: string };
 }
 
-async function queryOpenFDA(
+// The API key rides along in the query string — keep it out of responses and cache keys.
+function redactApiKey(url: string): string {
+  return url.replace(/([?&])api_key=[^&]*/, "$1api_key=REDACTED");
+}
+
+// ─── Record Models ───────────────────────────────────────────────────────────
+// The fields the tools read from each endpoint, with the types openFDA returns
+// (scalars come back as strings, harmonized `openfda` values as strings or
+// arrays). queryOpenFDA checks every record against its model: a field that
+// changed type is dropped from the record and reported as drift, as is a
+// required identifier that is missing or an expected field absent from a whole
+// page, so a renamed or re-typed field shows up in the footer and
+// `source.schema_warnings` instead of as a silent "N/A".
+// Models are loose — unlisted fields pass through untouched.
+
+const optionalString = z.string().optional();
+const optionalStrings = z.array(z.string()).optional();
+
+const ClassificationApiRecordSchema = z.looseObject({
+  product_code: z.string(),
+  device_name: optionalString,
+  device_class: optionalString,
+  regulation_number: optionalString,
+  medical_specialty: optionalString,
+  medical_specialty_description: optionalString,
+  definition: optionalString,
+  implant_flag: optionalString,
+  life_sustain_support_flag: optionalString,
+  gmp_exempt_flag: optionalString,
+  third_party_flag: optionalString,
+  submission_type_id: optionalString,
+  review_panel: optionalString,
+  review_code: optionalString,
+});
+
+const PremarketApiRecordSchema = z.looseObject({
+  k_number: z.string(),
+  decision_date: z.string(),
+  device_name: optionalString,
+  applicant: optionalString,
+  product_code: optionalString,
+  decision_code: optionalString,
+  decision_description: optionalString,
+  clearance_type: optionalString,
+  date_received: optionalString,
+  advisory_committee: optionalString,
+  advisory_committee_description: optionalString,
+  statement_or_summary: optionalString,
+  third_party_flag: optionalString,
+  openfda: z.looseObject({ device_name: optionalString, device_class: optionalString, regulation_number: optionalString }).optional(),
+});
+
+const PMAApiRecordSchema = z.looseObject({
+  pma_number: z.string(),
+  supplement_number: optionalString,
+  supplement_type: optionalString,
+  supplement_reason: optionalString,
+  trade_name: optionalString,
+  generic_name: optionalString,
+  applicant: optionalString,
+  product_code: optionalString,
+  decision_code: optionalString,
+  decision_date: optionalString,
+  date_received: optionalString,
+  advisory_committee: optionalString,
+  advisory_committee_description: optionalString,
+});
+
+const RecallApiRecordSchema = z.looseObject({
+  cfres_id: z.string(),
+  product_res_number: optionalString,
+  res_event_number: optionalString,
+  recalling_firm: optionalString,
+  product_description: optionalString,
+  reason_for_recall: optionalString,
+  root_cause_description: optionalString,
+  recall_status: optionalString,
+  event_date_initiated: optionalString,
+  event_date_posted: optionalString,
+  product_quantity: optionalString,
+  distribution_pattern: optionalString,
+  code_info: optionalString,
+  product_code: optionalString,
+  openfda: z.looseObject({ k_number: optionalStrings, device_name: optionalString }).optional(),
+});
+
+const EventApiRecordSchema = z.looseObject({
+  mdr_report_key: z.string(),
+  date_received: z.string(),
+  report_number: optionalString,
+  event_type: optionalString,
+  event_location: optionalString,
+  date_of_event: optionalString,
+  date_report: optionalString,
+  date_facility_aware: optionalString,
+  date_manufacturer_received: optionalString,
+  date_added: optionalString,
+  date_changed: optionalString,
+  report_source_code: optionalString,
+  source_type: optionalStrings,
+  type_of_report: optionalStrings,
+  manufacturer_name: optionalString,
+  product_problems: optionalStrings,
+  remedial_action: optionalStrings,
+  device: z.array(z.looseObject({
+    device_sequence_number: optionalString,
+    brand_name: optionalString,
+    generic_name: optionalString,
+    manufacturer_d_name: optionalString,
+    model_number: optionalString,
+    device_report_product_code: optionalString,
+    openfda: z.looseObject({ device_class: optionalString }).optional(),
+  })).optional(),
+  patient: z.array(z.looseObject({
+    patient_sequence_number: optionalString,
+    sequence_number_outcome: optionalStrings,
+    sequence_number_treatment: optionalStrings,
+    patient_problems: optionalStrings,
+  })).optional(),
+  mdr_text: z.array(z.looseObject({ text: optionalString, text_type_code: optionalString, patient_sequence_number: optionalString })).optional(),
+});
+
+// Required identifiers are only guaranteed by validation in the sense that their
+// absence is reported — callers still see them as optional.
+type ClassificationApiRecord = Partial<z.infer<typeof ClassificationApiRecordSchema>>;
+type PremarketApiRecord = Partial<z.infer<typeof PremarketApiRecordSchema>>;
+type PMAApiRecord = Partial<z.infer<typeof PMAApiRecordSchema>>;
+type RecallApiRecord = Partial<z.infer<typeof RecallApiRecordSchema>>;
+type EventApiRecord = Partial<z.infer<typeof EventApiRecordSchema>>;
+
+interface EndpointRecords {
+  classification: ClassificationApiRecord;
+  "510k": PremarketApiRecord;
+  pma: PMAApiRecord;
+  recall: RecallApiRecord;
+  event: EventApiRecord;
+}
+
+type RecordFor<E extends string> = E extends keyof EndpointRecords ? EndpointRecords[E] : Record<string, unknown>;
+
+const RECORD_SCHEMAS: Record<string, z.ZodType> = {
+  classification: ClassificationApiRecordSchema,
+  "510k": PremarketApiRecordSchema,
+  pma: PMAApiRecordSchema,
+  recall: RecallApiRecordSchema,
+  event: EventApiRecordSchema,
+};
+
+// Fields the formatters print. openFDA sends them on (nearly) every record, so
+// one absent from every record on a page has been renamed or removed.
+const EXPECTED_FIELDS: Record<string, string[]> = {
+  classification: [
+    "device_name", "device_class", "regulation_number", "medical_specialty", "implant_flag",
+    "life_sustain_support_flag", "gmp_exempt_flag", "third_party_flag", "submission_type_id",
+  ],
+  "510k": ["device_name", "applicant", "product_code", "decision_code", "decision_description", "clearance_type", "date_received", "advisory_committee"],
+  pma: ["applicant", "product_code", "decision_code", "decision_date", "advisory_committee"],
+  recall: ["recalling_firm", "recall_status", "event_date_initiated", "product_description", "reason_for_recall"],
+  event: ["report_number", "event_type", "device"],
+};
+
+interface SchemaWarning {
+  endpoint: string;
+  field: string;
+  problem: "missing" | "retyped";
+  expected: string;
+  received: string | null;
+  records: number;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function valueAt(record: unknown, path: PropertyKey[]): unknown {
+  return path.reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as Record<PropertyKey, unknown>)[key] : undefined), record);
+}
+
+// Records that fail their model are copied with the offending fields removed —
+// the cached response stays as openFDA sent it, so a cache hit reports it again.
+function validateRecords(endpoint: string, data: OpenFDAResponse): OpenFDAResponse {
+  const schema = RECORD_SCHEMAS[endpoint];
+  if (!schema || !data.results?.length) return data;
+  const stats = callStats.getStore();
+  let changed = false;
+
+  const results = data.results.map((record) => {
+    const parsed = schema.safeParse(record);
+    if (parsed.success) return record;
+    changed = true;
+    const copy = structuredClone(record);
+    for (const issue of parsed.error.issues) {
+      const value = valueAt(record, issue.path);
+      const field = issue.path.map((key) => (typeof key === "number" ? "[]" : String(key))).join(".").replace(/\.\[\]/g, "[]");
+      const warning: Omit<SchemaWarning, "records"> = {
+        endpoint,
+        field,
+        problem: value === undefined ? "missing" : "retyped",
+        expected: issue.code === "invalid_type" ? issue.expected : issue.message,
+        received: value === undefined ? null : describeValue(value),
+      };
+      const existing = stats?.schemaWarnings.find((w) => w.endpoint === endpoint && w.field === field && w.problem === warning.problem && w.received === warning.received);
+      if (existing) existing.records++;
+      else stats?.schemaWarnings.push({ ...warning, records: 1 });
+
+      if (value !== undefined && issue.path.length > 0) {
+        const parent = valueAt(copy, issue.path.slice(0, -1));
+        if (parent && typeof parent === "object") delete (parent as Record<PropertyKey, unknown>)[issue.path.at(-1)!];
+      }
+    }
+    return copy;
+  });
+
+  for (const field of EXPECTED_FIELDS[endpoint] ?? []) {
+    if (results.some((record) => record[field] !== undefined)) continue;
+    const existing = stats?.schemaWarnings.find((w) => w.endpoint === endpoint && w.field === field && w.problem === "missing");
+    if (existing) existing.records += results.length;
+    else stats?.schemaWarnings.push({ endpoint, field, problem: "missing", expected: "present on every record", received: null, records: results.length });
+  }
+  return changed ? { ...data, results } : data;
+}
+
+// ─── Response Cache ──────────────────────────────────────────────────────────
+// In-memory LRU keyed by the (key-redacted) query URL, with an optional on-disk
+// layer in CONFIG.cacheDir. Entries expire on each endpoint's update cadence, and
+// are dropped early once any fresh response shows a newer meta.last_updated for
+// that endpoint.
+
+const CACHE_TTL_DAYS: Record<string, number> = {
+  classification: 30,
+  "510k": 30,
+  pma: 30,
+  recall: 7,
+  event: 7,
+};
+const DEFAULT_CACHE_TTL_DAYS = 7;
+
+interface CacheEntry {
+  url: string;
+  endpoint: string;
+  storedAt: number;
+  lastUpdated?: string;
+  data: OpenFDAResponse;
+}
+
+function createResponseCache(maxEntries: number, dir?: string) {
+  const entries = new Map<string, CacheEntry>();
+  const latestUpdate = new Map<string, string>();
+
+  function isFresh(entry: CacheEntry): boolean {
+    const ttl = (CACHE_TTL_DAYS[entry.endpoint] ?? DEFAULT_CACHE_TTL_DAYS) * 86_400_000;
+    if (Date.now() - entry.storedAt > ttl) return false;
+    const latest = latestUpdate.get(entry.endpoint);
+    return !latest || !entry.lastUpdated || entry.lastUpdated >= latest;
+  }
+
+  function remember(key: string, entry: CacheEntry): void {
+    entries.delete(key);
+    entries.set(key, entry);
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  }
+
+  function diskPath(key: string): string {
+    return join(dir!, `${createHash("sha1").update(key).digest("hex")}.json`);
+  }
+
+  async function get(key: string): Promise<CacheEntry | null> {
+    if (maxEntries <= 0) return null;
+    let entry = entries.get(key) ?? null;
+    if (!entry && dir) {
+      try {
+        entry = JSON.parse(await readFile(diskPath(key), "utf8")) as CacheEntry;
+      } catch {
+        entry = null;
+      }
+    }
+    if (!entry || entry.url !== key) return null;
+    if (!isFresh(entry)) {
+      entries.delete(key);
+      return null;
+    }
+    remember(key, entry);
+    return entry;
+  }
+
+  async function set(key: string, endpoint: string, data: OpenFDAResponse): Promise<void> {
+    if (maxEntries <= 0) return;
+    const lastUpdated = data.meta?.last_updated;
+    if (lastUpdated && lastUpdated > (latestUpdate.get(endpoint) ?? "")) latestUpdate.set(endpoint, lastUpdated);
+    const entry: CacheEntry = { url: key, endpoint, storedAt: Date.now(), lastUpdated, data };
+    remember(key, entry);
+    if (dir) {
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(diskPath(key), JSON.stringify(entry));
+      } catch (err) {
+        console.error(`fda-devices: could not write cache entry: ${err}`);
+      }
+    }
+  }
+
+  return { get, set };
+}
+
+const responseCache = createResponseCache(CONFIG.cacheSize, CONFIG.cacheDir);
+
+// Search results are checked against the endpoint's record model (see Record
+// Models) and typed by it; count results are returned as sent.
+async function queryOpenFDA<E extends string>(
+  endpoint: E,
+  searchParts: string[],
+  options: { limit?: number; skip?: number; sort?: string; count?: string } = {}
+): Promise<{ data: OpenFDAResponse<RecordFor<E>>; url: string }> {
+  const { data, url } = await fetchOpenFDA(endpoint, searchParts, options);
+  return { data: (options.count ? data : validateRecords(endpoint, data)) as OpenFDAResponse<RecordFor<E>>, url };
+}
+
+async function fetchOpenFDA(
   endpoint: string,
   searchParts: string[],
-  options: { limit?: number; sort?: string } = {}
+  options: { limit?: number; skip?: number; sort?: string; count?: string },
 ): Promise<{ data: OpenFDAResponse; url: string }> {
   // Build URL manually — URLSearchParams encodes + as %2B which breaks openFDA's +AND+ syntax
   const queryParts: string[] = [];
   if (searchParts.length > 0) {
     queryParts.push(`search=${searchParts.join("+AND+")}`);
   }
+  if (options.count) queryParts.push(`count=${options.count}`);
   queryParts.push(`limit=${options.limit ?? 10}`);
+  if (options.skip) queryParts.push(`skip=${options.skip}`);
   if (options.sort) queryParts.push(`sort=${options.sort}`);
+  if (CONFIG.apiKey) queryParts.push(`api_key=${encodeURIComponent(CONFIG.apiKey)}`);
 
   const url = `${BASE_URL}/${endpoint}.json?${queryParts.join("&")}`;
+  const stats = callStats.getStore();
 
-  let response: Response;
-  try {
-    response = await fetch(url);
-  } catch (err) {
-    return {
-      data: { error: { code: "NETWORK", message: "Unable to reach openFDA API. Check connectivity." } },
-      url,
-    };
+  const local = queryBulkIndex(endpoint, searchParts, options);
+  if (local) {
+    stats?.localEndpoints.push(endpoint);
+    return { data: local, url };
   }
 
-  if (response.status === 429) {
-    return {
-      data: { error: { code: "429", message: "openFDA rate limit reached (240 req/min). Try again shortly." } },
-      url,
-    };
+  const cacheKey = redactApiKey(url);
+  if (stats) stats.requests++;
+
+  const cached = await responseCache.get(cacheKey);
+  if (cached) {
+    stats?.cacheAges.push(Date.now() - cached.storedAt);
+    return { data: cached.data, url };
   }
 
-  if (!response.ok) {
-    const text = await response.text();
-    let parsed: OpenFDAResponse;
+  for (let attempt = 0; ; attempt++) {
+    const waited = await rateLimiter.take();
+    if (stats) stats.throttledMs += waited;
+    const canRetry = attempt < CONFIG.maxRetries;
+
+    let response: Response;
     try {
-      parsed = JSON.parse(text);
-    } catch {
-      parsed = { error: { code: String(response.status), message: text.slice(0, 500) } };
+      response = await fetch(url);
+    } catch (err) {
+      if (canRetry) {
+        stats?.retries.push("network");
+        await sleep(retryDelay(attempt, null));
+        continue;
+      }
+      return {
+        data: { error: { code: "NETWORK", message: "Unable to reach openFDA API. Check connectivity." } },
+        url,
+      };
+    }
+
+    if (isRetryable(response.status) && canRetry) {
+      stats?.retries.push(String(response.status));
+      await response.body?.cancel();
+      await sleep(retryDelay(attempt, response.headers.get("retry-after")));
+      continue;
+    }
+
+    if (response.status === 429) {
+      return {
+        data: { error: { code: "429", message: "openFDA rate limit reached (240 req/min). Try again shortly." } },
+        url,
+      };
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      let parsed: OpenFDAResponse;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        parsed = { error: { code: String(response.status), message: text.slice(0, 500) } };
+      }
+      return { data: parsed, url };
     }
-    return { data: parsed, url };
-  }
 
-  const data = (await response.json()) as OpenFDAResponse;
-  return { data, url };
+    const data = (await response.json()) as OpenFDAResponse;
+    await responseCache.set(cacheKey, endpoint, data);
+    return { data, url };
+  }
 }
 
 function buildSearchTerms(field: string, query: string): string {
@@ -172,148 +758,938 @@ function buildSearchTerms(field: string, query: string): string {
   return terms.map((t) => `${field}:${t}`).join("+AND+");
 }
 
-// ─── Synonym Map ──────────────────────────────────────────────────────────────
-// Maps common user terms → FDA formal terminology. Keys must be lowercase.
-const SYNONYMS: Record<string, string[]> = {
-  ecg: ["electrocardiograph"],
-  ekg: ["electrocardiograph"],
-  robot: ["computer controlled instrument"],
-  robotic: ["computer controlled instrument"],
-  bp: ["blood pressure"],
-  cgm: ["continuous glucose monitor"],
-  ai: ["artificial intelligence"],
-  mri: ["magnetic resonance imaging"],
-  ct: ["computed tomography"],
-  xray: ["x-ray"],
-  "x-ray": ["radiographic"],
-  ultrasound: ["ultrasonic"],
-  cpap: ["continuous positive airway pressure"],
-  tens: ["transcutaneous electrical nerve stimulation"],
-  iud: ["intrauterine"],
-  stent: ["endoprosthesis"],
-  pacemaker: ["pulse generator"],
-  defibrillator: ["defibrillator"],
-  ventilator: ["ventilator"],
-  catheter: ["catheter"],
-  laser: ["laser"],
-  pump: ["infusion pump"],
-  thermometer: ["thermometer"],
-  oximeter: ["oximeter"],
-  hearing: ["hearing aid"],
-  insulin: ["insulin"],
-  dialysis: ["hemodialysis"],
-  prosthetic: ["prosthesis"],
-  implant: ["implant"],
-  endoscope: ["endoscope"],
-  monitor: ["monitor"],
-  wearable: ["wearable"],
-  patch: ["ambulatory"],
-  portable: ["portable"],
-  wireless: ["wireless"],
-  bluetooth: ["wireless"],
-  home: ["home use"],
-  otc: ["over-the-counter"],
-  samd: ["software"],
-  "software device": ["software"],
-  app: ["software", "mobile"],
-  cad: ["computer aided detection"],
-  "cad-x": ["computer aided diagnosis"],
-  triage: ["triage"],
-  diagnostic: ["diagnostic"],
-  screening: ["screening"],
-  imaging: ["image processing"],
-  ehr: ["electronic health record"],
-  clinical: ["clinical decision support"],
-  cds: ["clinical decision support"],
-  ml: ["machine learning"],
-  "deep learning": ["machine learning"],
-  algorithm: ["algorithm"],
-  waveform: ["electrocardiograph"],
-  "heart monitor": ["electrocardiograph"],
-  "heart rate": ["heart rate"],
-  "blood sugar": ["glucose"],
-  glucometer: ["glucose meter"],
-  spo2: ["oximeter"],
-  "sleep apnea": ["sleep apnea"],
-  oct: ["optical coherence tomography"],
-  pet: ["positron emission tomography"],
-  eeg: ["electroencephalograph"],
-  emg: ["electromyograph"],
-  "heart failure": ["ejection fraction"],
-  segmentation: ["contouring"],
-  arrhythmia: ["arrhythmia"],
-  afib: ["atrial fibrillation"],
-  "a-fib": ["atrial fibrillation"],
-  glaucoma: ["glaucoma"],
-  retinopathy: ["retinopathy"],
-  "macular degeneration": ["macular degeneration"],
-  mammography: ["mammograph"],
-  mammogram: ["mammograph"],
-  polyp: ["lesion"],
-  colonoscopy: ["endoscope gastrointestinal"],
-  endoscopy: ["endoscope"],
-  dental: ["dental"],
-  dermatology: ["dermatoscope"],
-  retinal: ["retinal"],
-  fundus: ["fundus"],
-  stroke: ["stroke"],
-  aneurysm: ["aneurysm"],
-  fracture: ["fracture"],
-  tumor: ["lesion"],
-  cancer: ["cancer"],
-  detection: ["detection"],
-  diagnosis: ["diagnosis"],
+// ─── Bulk Data Index ─────────────────────────────────────────────────────────
+// Optional offline mode. `bun run index.ts import <files>` loads openFDA's
+// downloadable device JSON dumps into a SQLite database (FDA_DEVICES_BULK_DB).
+// Once an endpoint has been imported, fetchOpenFDA answers its searches from
+// that database with the same search syntax — no rate limit, no skip ceiling.
+// Every scalar leaf is stored twice: verbatim in field_values (.exact, ranges,
+// _exists_, sorting, counts) and tokenized in the field_text FTS5 index, whose
+// rowid is record rowid × BULK_LEAVES + leaf index so a record's text rows can
+// be replaced with one range delete.
+
+// Dumps the import accepts, with the field that identifies a record across dumps
+const BULK_ENDPOINTS: Record<string, (record: Record<string, unknown>) => unknown> = {
+  classification: (r) => r.product_code,
+  "510k": (r) => r.k_number,
+  pma: (r) => r.pma_number && [r.pma_number, r.supplement_number].filter(Boolean).join("/"),
+  recall: (r) => r.cfres_id,
+  event: (r) => r.mdr_report_key,
 };
 
-// Expand user query terms using synonym map. Returns deduplicated expanded terms array.
-function expandSynonyms(terms: string[]): string[] {
-  const expanded: string[] = [];
-  const seen = new Set<string>();
-  for (const term of terms) {
-    const key = term.toLowerCase();
-    if (SYNONYMS[key]) {
-      for (const syn of SYNONYMS[key]) {
-        for (const word of syn.split(/\s+/)) {
-          const lower = word.toLowerCase();
-          if (!seen.has(lower)) {
-            seen.add(lower);
-            expanded.push(word);
-          }
-        }
-      }
-    } else {
-      if (!seen.has(key)) {
-        seen.add(key);
-        expanded.push(term);
-      }
-    }
+const BULK_LEAVES = 4096;
+const BULK_VALUE_MAX = 200; // longer leaves (narratives) are text-searchable only
+
+const BULK_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (endpoint TEXT NOT NULL, id TEXT NOT NULL, body TEXT NOT NULL, seen INTEGER, UNIQUE (endpoint, id));
+  CREATE TABLE IF NOT EXISTS field_values (record INTEGER NOT NULL, path TEXT NOT NULL, value TEXT);
+  CREATE INDEX IF NOT EXISTS field_values_lookup ON field_values (path, value);
+  CREATE INDEX IF NOT EXISTS field_values_record ON field_values (record, path);
+  CREATE VIRTUAL TABLE IF NOT EXISTS field_text USING fts5 (text, path UNINDEXED);
+  CREATE TABLE IF NOT EXISTS imports (file TEXT PRIMARY KEY, endpoint TEXT NOT NULL, last_updated TEXT NOT NULL, records INTEGER NOT NULL, imported_at TEXT NOT NULL);
+`;
+
+// Scalar leaves by dotted path; array indexes are dropped, as in openFDA field names
+function flattenRecord(value: unknown, path: string, leaves: [string, string][]): [string, string][] {
+  if (Array.isArray(value)) {
+    for (const item of value) flattenRecord(item, path, leaves);
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) flattenRecord(item, path ? `${path}.${key}` : key, leaves);
+  } else if (value !== null && value !== undefined && value !== "") {
+    leaves.push([path, String(value)]);
   }
-  return expanded;
+  return leaves;
 }
 
-// Generate term combinations ordered by length (longest first), then left-to-right.
-// For [A, B, C] → [[A,B,C], [A,B], [B,C], [A,C], [A], [B], [C]]
-function generateCombinations(terms: string[]): string[][] {
-  if (terms.length <= 1) return [terms];
+let bulkIndex: Database | null = null;
+let bulkIndexWarned = false;
 
-  const combos: string[][] = [];
-  // Group by size, largest first
-  for (let size = terms.length; size >= 1; size--) {
-    // Generate all contiguous and non-contiguous combos of this size
-    const indices = getCombinationIndices(terms.length, size);
-    for (const idx of indices) {
-      combos.push(idx.map((i) => terms[i]));
-    }
+// Until it opens, the database is looked for on every call, so a first import
+// takes effect without a restart.
+function openBulkIndex(): Database | null {
+  const path = CONFIG.bulkDb;
+  if (bulkIndex || !path) return bulkIndex;
+  try {
+    if (existsSync(path)) bulkIndex = new Database(path, { readonly: true });
+  } catch (err) {
+    if (!bulkIndexWarned) console.error(`fda-devices: cannot open bulk-data index ${path}: ${err}`);
+    bulkIndexWarned = true;
+    return null;
   }
-  return combos;
+  if (!bulkIndex && !bulkIndexWarned) {
+    console.error(`fda-devices: bulk-data index ${path} not found — using the openFDA API until \`bun run index.ts import <dump files>\` builds it`);
+    bulkIndexWarned = true;
+  }
+  return bulkIndex;
 }
 
-// Get all index combinations of `size` from `n` items, preferring contiguous runs
-function getCombinationIndices(n: number, size: number): number[][] {
-  const contiguous: number[][] = [];
-  const nonContiguous: number[][] = [];
-
-  function* combine(start: number, picked: number[]): Generator<number[]> {
+// Newest dump imported for the endpoint, or null when it has none
+function bulkDumpDate(db: Database, endpoint: string): string | null {
+  try {
+    return db.query<{ last_updated: string | null }, [string]>("SELECT MAX(last_updated) AS last_updated FROM imports WHERE endpoint = ?")
+      .get(endpoint)?.last_updated ?? null;
+  } catch {
+    return null;
+  }
+}
+
+interface BulkCondition {
+  sql: string;
+  params: SQLQueryBindings[];
+}
+
+// The search string as openFDA would read it: + is a space, %XX is escaped
+function decodeSearch(search: string): string {
+  const spaced = search.replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(spaced);
+  } catch {
+    return spaced;
+  }
+}
+
+// SQL condition on the records row `r` matching one parsed search node
+function compileBulkCondition(node: ExpressionNode): BulkCondition {
+  const byValue = (condition: string, params: SQLQueryBindings[]): BulkCondition =>
+    ({ sql: `r.rowid IN (SELECT record FROM field_values WHERE ${condition})`, params });
+  switch (node.kind) {
+    case "and":
+    case "or": {
+      const parts = node.nodes.map(compileBulkCondition);
+      return { sql: `(${parts.map((p) => p.sql).join(` ${node.kind.toUpperCase()} `)})`, params: parts.flatMap((p) => p.params) };
+    }
+    case "not": {
+      const inner = compileBulkCondition(node.node);
+      return { sql: `NOT ${inner.sql}`, params: inner.params };
+    }
+    case "exists": {
+      const present = byValue("path = ?", [node.field.replace(/\.exact$/, "")]);
+      return node.missing ? { sql: `NOT ${present.sql}`, params: present.params } : present;
+    }
+    case "range": {
+      const conditions = ["path = ?"];
+      const params: SQLQueryBindings[] = [node.field.replace(/\.exact$/, "")];
+      if (node.lo !== "*") { conditions.push("value >= ?"); params.push(node.lo); }
+      if (node.hi !== "*") { conditions.push("value <= ?"); params.push(node.hi); }
+      return byValue(conditions.join(" AND "), params);
+    }
+    case "clause": {
+      const value = node.value.replace(/^"(.*)"$/, "$1");
+      if (node.field.endsWith(".exact")) return byValue("path = ? AND value = ?", [node.field.slice(0, -".exact".length), value]);
+      // Tokenized match, like openFDA's analyzed fields; a trailing * is a prefix
+      const prefix = !node.value.startsWith('"') && value.endsWith("*");
+      const words = value.match(/[\p{L}\p{N}]+/gu);
+      if (!words) return { sql: "0", params: [] };
+      return {
+        sql: `r.rowid IN (SELECT rowid / ${BULK_LEAVES} FROM field_text WHERE field_text MATCH ? AND path = ?)`,
+        params: [`text : "${words.join(" ")}"${prefix ? " *" : ""}`, node.field],
+      };
+    }
+  }
+}
+
+// Answers an openFDA request from the bulk-data index, or returns null when the
+// endpoint hasn't been imported. Counts group whole values: `.exact` fields as
+// stored, other fields lower-cased (openFDA's tokenized counts agree for the
+// single-word fields tools count on), dates as YYYYMMDD buckets.
+function queryBulkIndex(
+  endpoint: string,
+  searchParts: string[],
+  options: { limit?: number; skip?: number; sort?: string; count?: string },
+): OpenFDAResponse | null {
+  const db = openBulkIndex();
+  const dumpDate = db && bulkDumpDate(db, endpoint);
+  if (!db || !dumpDate) return null;
+
+  let where: BulkCondition = { sql: "1", params: [] };
+  if (searchParts.length > 0) {
+    try {
+      where = compileBulkCondition(parseExpression(decodeSearch(searchParts.join("+AND+")), "or"));
+    } catch (err) {
+      if (!(err instanceof ExpressionError)) throw err;
+      return { error: { code: "BAD_REQUEST", message: `Local bulk-data index cannot read the search: ${err.message}` } };
+    }
+  }
+  const limit = options.limit ?? 10;
+  const skip = options.skip ?? 0;
+  const notFound: OpenFDAResponse = { meta: { last_updated: dumpDate, local: true }, error: { code: "NOT_FOUND", message: "No matches found!" } };
+
+  if (options.count) {
+    const path = options.count.replace(/\.exact$/, "");
+    const isDate = EXPRESSION_FIELDS[endpoint]?.dates.includes(path) ?? false;
+    const term = options.count.endsWith(".exact") ? "v.value" : isDate ? "replace(v.value, '-', '')" : "lower(v.value)";
+    const rows = db.query<{ term: string; count: number }, SQLQueryBindings[]>(
+      `SELECT ${term} AS term, COUNT(DISTINCT v.record) AS count
+       FROM field_values v JOIN records r ON r.rowid = v.record
+       WHERE r.endpoint = ? AND v.path = ? AND v.value IS NOT NULL AND (${where.sql})
+       GROUP BY term ORDER BY ${isDate ? "term" : "count DESC, term"} LIMIT ?`,
+    ).all(endpoint, path, ...where.params, isDate ? -1 : limit);
+    if (rows.length === 0) return notFound;
+    return {
+      meta: { last_updated: dumpDate, local: true },
+      results: rows.map((row) => (isDate ? { time: row.term, count: row.count } : row)),
+    };
+  }
+
+  const total = db.query<{ total: number }, SQLQueryBindings[]>(
+    `SELECT COUNT(*) AS total FROM records r WHERE r.endpoint = ? AND (${where.sql})`,
+  ).get(endpoint, ...where.params)?.total ?? 0;
+  if (total === 0) return notFound;
+
+  const [sortField, direction] = options.sort?.split(":") ?? [];
+  const order = sortField
+    ? `(SELECT MAX(value) FROM field_values WHERE record = r.rowid AND path = ?) ${direction === "desc" ? "DESC" : "ASC"}, r.rowid`
+    : "r.rowid";
+  const rows = db.query<{ body: string }, SQLQueryBindings[]>(
+    `SELECT r.body FROM records r WHERE r.endpoint = ? AND (${where.sql}) ORDER BY ${order} LIMIT ? OFFSET ?`,
+  ).all(endpoint, ...where.params, ...(sortField ? [sortField.replace(/\.exact$/, "")] : []), limit, skip);
+  return {
+    meta: { last_updated: dumpDate, local: true, results: { total, skip, limit } },
+    results: rows.map((row) => JSON.parse(row.body) as Record<string, unknown>),
+  };
+}
+
+interface BulkDump {
+  meta?: { last_updated?: string };
+  results?: Record<string, unknown>[];
+}
+
+// openFDA ships each dump as a single-entry zip. The entry is streamed from its
+// local header through inflate, bounded by the central directory when the
+// archive says where that is (ZIP64 archives don't; inflate stops at the end of
+// the deflate stream regardless).
+function openZipEntry(file: string): Readable {
+  const fd = openSync(file, "r");
+  try {
+    const size = statSync(file).size;
+    const tail = Buffer.alloc(Math.min(size, 65_557));
+    readSync(fd, tail, 0, tail.length, size - tail.length);
+    const end = tail.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (end < 0) throw new Error(`${file} is not a zip archive`);
+    const central = tail.readUInt32LE(end + 16);
+    const header = Buffer.alloc(30);
+    readSync(fd, header, 0, header.length, 0);
+    if (header.readUInt32LE(0) !== 0x04034b50) throw new Error(`${file}: no zip entry at the start of the archive`);
+    const method = header.readUInt16LE(8);
+    const start = header.length + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const bounded = central !== 0xffffffff;
+    const data = createReadStream(file, { start, end: bounded ? central - 1 : undefined });
+    if (method === 8) return pipeline(data, createInflateRaw(), () => {});
+    if (method === 0 && bounded) return data;
+    data.destroy();
+    throw new Error(`${file} uses zip compression method ${method}${bounded ? "" : " with ZIP64"}, which the import can't read — unzip it and import the .json file`);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Streams a dump's `meta` object and each element of `results` to the callbacks
+// without holding the file in memory: a scanner tracks nesting and strings, and
+// JSON.parse only ever sees one record. A callback returning false stops the scan.
+function createDumpScanner(onMeta: (meta: BulkDump["meta"]) => boolean, onRecord: (record: Record<string, unknown>) => void) {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let key = ""; // last string seen at the top level — the key of the value that follows
+  let keyParts: string[] | null = null;
+  let valueParts: string[] | null = null;
+  let valueDepth = 0;
+
+  return (chunk: string): boolean => {
+    let keyStart = 0;
+    let valueStart = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk.charCodeAt(i);
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === 0x5c) escaped = true;
+        else if (c === 0x22) {
+          inString = false;
+          if (keyParts) {
+            keyParts.push(chunk.slice(keyStart, i));
+            key = keyParts.join("");
+            keyParts = null;
+          }
+        }
+      } else if (c === 0x22) {
+        inString = true;
+        if (depth === 1) { keyParts = []; keyStart = i + 1; }
+      } else if (c === 0x7b || c === 0x5b) {
+        depth++;
+        if (!valueParts && c === 0x7b && ((depth === 2 && key === "meta") || (depth === 3 && key === "results"))) {
+          valueParts = [];
+          valueStart = i;
+          valueDepth = depth;
+        }
+      } else if (c === 0x7d || c === 0x5d) {
+        if (valueParts && depth === valueDepth) {
+          valueParts.push(chunk.slice(valueStart, i + 1));
+          const value = JSON.parse(valueParts.join(""));
+          valueParts = null;
+          if (valueDepth === 2) {
+            if (!onMeta(value)) return false;
+          } else {
+            onRecord(value);
+          }
+        }
+        depth--;
+      }
+    }
+    keyParts?.push(chunk.slice(keyStart));
+    valueParts?.push(chunk.slice(valueStart));
+    return true;
+  };
+}
+
+async function scanDump(file: string, write: (chunk: string) => boolean): Promise<void> {
+  const stream = file.endsWith(".zip") ? openZipEntry(file) : createReadStream(file);
+  stream.setEncoding("utf8");
+  for await (const chunk of stream) {
+    if (!write(chunk as string)) break;
+  }
+}
+
+// The import command. Files already imported from a dump at least as new are
+// skipped; otherwise records are upserted by id, so a newer weekly download
+// updates changed records and adds new ones. With --full the files are the
+// endpoints' complete dumps: nothing is skipped, and records the files no longer
+// contain are deleted. Returns the process exit code.
+async function importBulkData(args: string[]): Promise<number> {
+  const path = CONFIG.bulkDb;
+  const full = args.includes("--full");
+  const files = args.filter((arg) => arg !== "--full");
+  if (!path) {
+    console.error("fda-devices: set FDA_DEVICES_BULK_DB (or bulk_db in the config file) to the database to import into");
+    return 1;
+  }
+  if (files.length === 0) {
+    console.error("usage: bun run index.ts import [--full] <device-{classification,510k,pma,recall,event}-*.json[.zip]> …");
+    return 1;
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path, { create: true });
+  db.run("PRAGMA journal_mode = WAL");
+  db.run(BULK_SCHEMA);
+  const findImport = db.query<{ last_updated: string }, [string]>("SELECT last_updated FROM imports WHERE file = ?");
+  const findRecord = db.query<{ rowid: number; body: string }, [string, string]>("SELECT rowid, body FROM records WHERE endpoint = ? AND id = ?");
+  const insertRecord = db.query("INSERT INTO records (endpoint, id, body, seen) VALUES (?, ?, ?, ?)");
+  const updateRecord = db.query("UPDATE records SET body = ?, seen = ? WHERE rowid = ?");
+  const markSeen = db.query("UPDATE records SET seen = ? WHERE rowid = ?");
+  const deleteRecord = db.query("DELETE FROM records WHERE rowid = ?");
+  const deleteValues = db.query("DELETE FROM field_values WHERE record = ?");
+  const deleteText = db.query("DELETE FROM field_text WHERE rowid BETWEEN ? AND ?");
+  const insertValue = db.query("INSERT INTO field_values (record, path, value) VALUES (?, ?, ?)");
+  const insertText = db.query("INSERT INTO field_text (rowid, text, path) VALUES (?, ?, ?)");
+  const recordImport = db.query("INSERT OR REPLACE INTO imports (file, endpoint, last_updated, records, imported_at) VALUES (?, ?, ?, ?, ?)");
+  const removeFields = (rowid: number) => {
+    deleteValues.run(rowid);
+    deleteText.run(rowid * BULK_LEAVES, (rowid + 1) * BULK_LEAVES - 1);
+  };
+
+  const run = Date.now();
+  const imported = new Set<string>();
+  const failed = new Set<string>();
+  for (const file of files) {
+    const endpoint = /^device-(classification|510k|pma|recall|event)-/.exec(basename(file))?.[1];
+    if (!endpoint) {
+      console.error(`${file}: skipped — not an openFDA device dump (expected device-<${Object.keys(BULK_ENDPOINTS).join("|")}>-….json[.zip])`);
+      failed.add(file);
+      continue;
+    }
+
+    const key = resolve(file);
+    const previous = findImport.get(key)?.last_updated;
+    let lastUpdated: string | null = null;
+    let skipped = false;
+    let records = 0;
+    const counts = { added: 0, updated: 0, unchanged: 0, noId: 0 };
+
+    const upsert = (record: Record<string, unknown>) => {
+      lastUpdated ??= statSync(file).mtime.toISOString().slice(0, 10); // dump without meta
+      records++;
+      const id = BULK_ENDPOINTS[endpoint]!(record);
+      if (typeof id !== "string" && typeof id !== "number") { counts.noId++; return; }
+      const body = JSON.stringify(record);
+      const existing = findRecord.get(endpoint, String(id));
+      let rowid: number;
+      if (existing) {
+        rowid = existing.rowid;
+        if (existing.body === body) {
+          markSeen.run(run, rowid);
+          counts.unchanged++;
+          return;
+        }
+        updateRecord.run(body, run, rowid);
+        removeFields(rowid);
+        counts.updated++;
+      } else {
+        rowid = Number(insertRecord.run(endpoint, String(id), body, run).lastInsertRowid);
+        counts.added++;
+      }
+      flattenRecord(record, "", []).slice(0, BULK_LEAVES).forEach(([leafPath, value], i) => {
+        insertValue.run(rowid, leafPath, value.length <= BULK_VALUE_MAX ? value : null);
+        insertText.run(rowid * BULK_LEAVES + i, value, leafPath);
+      });
+    };
+    const onMeta = (meta: BulkDump["meta"]) => {
+      lastUpdated = meta?.last_updated ?? null;
+      skipped = !full && !!previous && !!lastUpdated && previous >= lastUpdated;
+      return !skipped;
+    };
+
+    // One transaction per file, so a truncated or corrupt download changes nothing
+    db.run("BEGIN");
+    try {
+      await scanDump(file, createDumpScanner(onMeta, upsert));
+    } catch (err) {
+      db.run("ROLLBACK");
+      console.error(`${file}: ${err instanceof Error ? err.message : err} — nothing imported from it`);
+      failed.add(endpoint);
+      continue;
+    }
+    if (skipped) {
+      db.run("ROLLBACK");
+      console.log(`${file}: dump of ${lastUpdated} already imported — skipped`);
+      continue;
+    }
+    lastUpdated ??= statSync(file).mtime.toISOString().slice(0, 10);
+    recordImport.run(key, endpoint, lastUpdated, records, new Date().toISOString());
+    db.run("COMMIT");
+    imported.add(endpoint);
+    console.log(`${file}: ${endpoint} dump of ${lastUpdated} — ${counts.added} added, ${counts.updated} updated, ${counts.unchanged} unchanged${counts.noId ? `, ${counts.noId} without an id skipped` : ""}`);
+  }
+
+  if (full) {
+    for (const endpoint of imported) {
+      // A partial run can't tell dropped records from ones in the failed file
+      if (failed.has(endpoint)) {
+        console.error(`${endpoint}: not pruned — a file for it failed to import`);
+        continue;
+      }
+      const stale = db.query<{ rowid: number }, [string, number]>("SELECT rowid FROM records WHERE endpoint = ? AND seen IS NOT ?").all(endpoint, run);
+      db.transaction(() => {
+        for (const { rowid } of stale) {
+          removeFields(rowid);
+          deleteRecord.run(rowid);
+        }
+      })();
+      console.log(`${endpoint}: ${stale.length} record(s) no longer in the dump removed`);
+    }
+  }
+  db.close();
+  return failed.size > 0 ? 1 : 0;
+}
+
+// ─── Pagination ──────────────────────────────────────────────────────────────
+// openFDA caps skip at 25,000 (skip + limit ≈ 26,000 — SPEC Known Limitation #6).
+// Past that, sorted searches switch to date windows: the next cursor ends the date
+// range at the last record seen and restarts skip inside that narrower window.
+
+const MAX_SKIP = 25_000;
+
+// Date field each search tool filters and sorts on, with its native query format
+const SEARCH_DATE_FIELDS: Record<string, { field: string; earliest: string; compact: boolean }> = {
+  "510k": { field: "decision_date", earliest: "1976-01-01", compact: false },
+  pma: { field: "decision_date", earliest: "1976-01-01", compact: false },
+  recall: { field: "event_date_initiated", earliest: "2002-01-01", compact: false },
+  enforcement: { field: "recall_initiation_date", earliest: "2004-01-01", compact: true },
+  event: { field: "date_received", earliest: "2000-01-01", compact: true },
+};
+
+function dateRangePart(endpoint: string, from: string | undefined, to: string | undefined): string {
+  const { field, earliest, compact } = SEARCH_DATE_FIELDS[endpoint]!;
+  const native = (date: string) => (compact ? stripDashes(date) : date);
+  return `${field}:[${native(from ?? earliest)}+TO+${native(to ?? new Date().toISOString().slice(0, 10))}]`;
+}
+
+// openFDA's per-request limit ceiling
+const MAX_LIMIT = 1000;
+
+// Every match, MAX_LIMIT per request, up to `max` records (and the skip ceiling,
+// which the bulk-data index doesn't have). `data` is the first page, for its error and meta.
+async function fetchAllPages<E extends string>(
+  endpoint: E,
+  parts: string[],
+  sort: string | undefined,
+  max: number,
+): Promise<{ data: OpenFDAResponse<RecordFor<E>>; url: string; records: RecordFor<E>[]; total: number; truncated: boolean }> {
+  const first = await queryOpenFDA(endpoint, parts, { limit: Math.min(MAX_LIMIT, max), sort });
+  const records = [...(first.data.results ?? [])];
+  const total = first.data.meta?.results?.total ?? records.length;
+  while (records.length < Math.min(total, max) && (first.data.meta?.local || records.length <= MAX_SKIP)) {
+    const { data } = await queryOpenFDA(endpoint, parts, { limit: Math.min(MAX_LIMIT, max - records.length), skip: records.length, sort });
+    if (data.error || !data.results?.length) break;
+    records.push(...data.results);
+  }
+  return { data: first.data, url: first.url, records, total, truncated: records.length < total };
+}
+
+interface PageCursor {
+  skip: number;
+  before?: string; // inclusive YYYY-MM-DD upper bound of the current date window
+}
+
+function encodeCursor(page: PageCursor): string {
+  return Buffer.from(JSON.stringify(page)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): PageCursor | null {
+  try {
+    const page = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof page.skip !== "number" || page.skip < 0 || page.skip > MAX_SKIP) return null;
+    if (page.before !== undefined && !DATE_RE.test(page.before)) return null;
+    return { skip: page.skip, before: page.before };
+  } catch {
+    return null;
+  }
+}
+
+// Returns the page to fetch, or a validation error message.
+function resolvePage(skip: number | undefined, cursor: string | undefined): PageCursor | string {
+  if (cursor && skip !== undefined) return "Provide either skip or cursor, not both.";
+  if (cursor) {
+    return decodeCursor(cursor) ?? `"${cursor}" is not a valid cursor. Pass the cursor from a previous response's "Next page" hint unchanged.`;
+  }
+  return { skip: skip ?? 0 };
+}
+
+interface PageInfo {
+  line: string;
+  nextCursor?: string;
+}
+
+// Describe the page shown and how to fetch the next one. `filters` are the search
+// parts without the date range, so a new date window can be counted when the skip
+// ceiling is reached. Returns null for a complete single-page result.
+async function describePage(
+  endpoint: string,
+  filters: string[],
+  dateFrom: string | undefined,
+  page: PageCursor,
+  data: OpenFDAResponse,
+  sort: string | undefined,
+): Promise<PageInfo | null> {
+  const results = data.results ?? [];
+  const total = data.meta?.results?.total ?? results.length;
+  const end = page.skip + results.length;
+  if (page.skip === 0 && !page.before && end >= total) return null;
+
+  const shown = page.before
+    ? `Showing ${page.skip + 1}–${end} of ${total} dated on or before ${page.before}.`
+    : `Showing ${page.skip + 1}–${end} of ${total}.`;
+  if (end >= total) return { line: `${shown} Last page.` };
+
+  if (end <= MAX_SKIP) {
+    const nextCursor = encodeCursor({ skip: end, before: page.before });
+    const skipHint = page.before ? "" : ` (or skip: ${end})`;
+    return { line: `${shown} Next page: cursor "${nextCursor}"${skipHint}`, nextCursor };
+  }
+
+  const ceiling = { line: `${shown} openFDA cannot page past ${MAX_SKIP.toLocaleString()} records — narrow the date range to see more.` };
+  const dateField = SEARCH_DATE_FIELDS[endpoint]?.field;
+  const lastDate = dateField ? normalizeDateResponse(results.at(-1)?.[dateField] as string | undefined) : null;
+  if (!sort || !lastDate || !DATE_RE.test(lastDate)) return ceiling;
+
+  // Records newer than lastDate drop out of the next window; the rest of the ones
+  // already seen share lastDate and must be skipped inside it.
+  const { data: windowData } = await queryOpenFDA(endpoint, [...filters, dateRangePart(endpoint, dateFrom, lastDate)], { limit: 1, sort });
+  const windowTotal = windowData.meta?.results?.total;
+  if (windowData.error || windowTotal === undefined) return ceiling;
+  const skip = end - (total - windowTotal);
+  if (skip < 0 || skip > MAX_SKIP) return ceiling;
+  const nextCursor = encodeCursor({ skip, before: lastDate });
+  return { line: `${shown} Skip ceiling reached — continuing in a date window. Next page: cursor "${nextCursor}"`, nextCursor };
+}
+
+// ─── Search Filters ──────────────────────────────────────────────────────────
+// Filter clauses per endpoint, shared by the search tools and count_devices.
+// Date ranges are added separately by dateRangePart.
+
+interface SearchFilterArgs {
+  product_code?: string;
+  device_class?: string;
+  applicant?: string;
+  device_name?: string;
+  decision?: string;
+  clearance_type?: string;
+  advisory_committee?: string;
+  trade_name?: string;
+  recalling_firm?: string;
+  recall_number?: string;
+  classification?: string;
+  status?: string;
+  brand_name?: string;
+  manufacturer?: string;
+  event_type?: string;
+  report_source?: string;
+  primary_di?: string;
+  version_or_model?: string;
+  company_name?: string;
+  firm_name?: string;
+  fei_number?: string;
+  registration_number?: string;
+  country?: string;
+  establishment_type?: string;
+}
+
+// Which filter params each endpoint understands, in query order
+const ENDPOINT_FILTER_PARAMS: Record<string, (keyof SearchFilterArgs)[]> = {
+  classification: ["product_code", "device_class"],
+  "510k": ["product_code", "applicant", "device_name", "decision", "clearance_type", "advisory_committee"],
+  pma: ["product_code", "applicant", "trade_name", "advisory_committee"],
+  recall: ["product_code", "recalling_firm", "status"],
+  enforcement: ["recall_number", "recalling_firm", "classification", "status"],
+  event: ["product_code", "brand_name", "manufacturer", "event_type", "report_source"],
+  udi: ["primary_di", "product_code", "brand_name", "version_or_model", "company_name"],
+  registrationlisting: ["product_code", "firm_name", "fei_number", "registration_number", "country", "establishment_type"],
+};
+
+// `overrides` replaces a param's clause, e.g. with an expanded company filter
+function searchFilters(endpoint: string, args: SearchFilterArgs, overrides: Partial<Record<keyof SearchFilterArgs, string>> = {}): string[] {
+  const parts: string[] = [];
+  for (const param of ENDPOINT_FILTER_PARAMS[endpoint] ?? []) {
+    const value = args[param];
+    if (!value) continue;
+    const override = overrides[param];
+    if (override) {
+      parts.push(override);
+      continue;
+    }
+    switch (param) {
+      case "product_code":
+        parts.push(endpoint === "event"
+          ? `device.device_report_product_code:${value.toUpperCase()}`
+          : endpoint === "udi"
+            ? `product_codes.code:${value.toUpperCase()}`
+            : endpoint === "registrationlisting"
+              ? `products.product_code:${value.toUpperCase()}`
+              : `product_code:${value.toUpperCase()}`);
+        break;
+      case "device_class": parts.push(`device_class:${value}`); break;
+      case "applicant": parts.push(`applicant:"${value}"`); break;
+      case "device_name": parts.push(`device_name:"${value}"`); break;
+      case "decision": parts.push(`decision_code:${value}`); break;
+      case "clearance_type": parts.push(`clearance_type:"${value}"`); break;
+      case "advisory_committee": parts.push(`advisory_committee:${value.toUpperCase()}`); break;
+      case "trade_name": parts.push(`trade_name:"${value}"`); break;
+      case "recalling_firm": parts.push(`recalling_firm:"${value}"`); break;
+      case "recall_number": parts.push(`recall_number:"${value.toUpperCase()}"`); break;
+      case "classification": parts.push(`classification:"${value}"`); break;
+      case "status": parts.push(endpoint === "enforcement" ? `status:"${value}"` : `recall_status:"${value}"`); break;
+      case "brand_name": parts.push(endpoint === "udi" ? `brand_name:"${value}"` : `device.brand_name:"${value}"`); break;
+      case "manufacturer": parts.push(`device.manufacturer_d_name:"${value}"`); break;
+      case "event_type": parts.push(`event_type:"${value}"`); break;
+      case "report_source": parts.push(`report_source_code:"${value}"`); break;
+      case "primary_di": parts.push(`identifiers.id:"${value}"`); break;
+      case "version_or_model": parts.push(`version_or_model_number:"${value}"`); break;
+      case "company_name": parts.push(`company_name:"${value}"`); break;
+      // The registered establishment and its owner/operator often differ in name
+      case "firm_name": parts.push(`(registration.name:"${value}"+registration.owner_operator.firm_name:"${value}")`); break;
+      case "fei_number": parts.push(`registration.fei_number:${value}`); break;
+      case "registration_number": parts.push(`registration.registration_number:${value}`); break;
+      case "country": parts.push(`registration.iso_country_code:${value.toUpperCase()}`); break;
+      case "establishment_type": parts.push(`establishment_type:"${value}"`); break;
+    }
+  }
+  return parts;
+}
+
+// ─── Company Names ───────────────────────────────────────────────────────────
+// Company fields are free text, so "Medtronic", "MEDTRONIC, INC." and "Medtronic
+// plc" are different strings to a phrase filter. Names are reduced to a core
+// (no punctuation, no trailing legal suffix), variants sharing that core are
+// found with a count query on the exact field, and the alias file adds
+// subsidiaries under a parent: { "Medtronic": ["Covidien", "Mazor Robotics"] }.
+
+const COMPANY_FIELDS: Record<string, string> = {
+  "510k": "applicant",
+  pma: "applicant",
+  recall: "recalling_firm",
+  event: "device.manufacturer_d_name",
+};
+
+const LEGAL_SUFFIXES = new Set([
+  "INC", "INCORPORATED", "CORP", "CORPORATION", "CO", "COMPANY", "LLC", "LTD", "LIMITED", "PLC",
+  "GMBH", "AG", "KG", "SA", "SAS", "SARL", "SPA", "SRL", "BV", "NV", "AB", "AS", "OY", "KK",
+  "PTY", "LP", "LLP", "ULC", "LTDA", "AND",
+]);
+
+// Variants beyond this are dropped (least frequent first) to keep the URL sane
+const MAX_COMPANY_VARIANTS = 25;
+
+function normalizeCompanyName(name: string): string {
+  const words = name
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/\./g, "")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+  if (words[0] === "THE") words.shift();
+  let end = words.length;
+  while (end > 1 && LEGAL_SUFFIXES.has(words[end - 1]!)) end--;
+  return words.slice(0, end).join(" ");
+}
+
+let aliasCache: { path: string; mtimeMs: number; groups: Map<string, string[]> } | null = null;
+
+// Re-read whenever the file changes, so edits apply without a restart
+function loadCompanyAliases(): Map<string, string[]> {
+  const path = CONFIG.aliasesFile;
+  if (!existsSync(path)) return new Map();
+  const mtimeMs = statSync(path).mtimeMs;
+  if (aliasCache?.path === path && aliasCache.mtimeMs === mtimeMs) return aliasCache.groups;
+
+  const groups = new Map<string, string[]>();
+  try {
+    const file = JSON.parse(readFileSync(path, "utf8")) as Record<string, unknown>;
+    for (const [parent, subsidiaries] of Object.entries(file)) {
+      if (!Array.isArray(subsidiaries)) continue;
+      groups.set(normalizeCompanyName(parent), subsidiaries.filter((s): s is string => typeof s === "string" && s.trim() !== ""));
+    }
+  } catch (err) {
+    console.error(`fda-devices: ignoring unreadable alias file ${path}: ${err}`);
+  }
+  aliasCache = { path, mtimeMs, groups };
+  return groups;
+}
+
+interface CompanyResolution {
+  part: string;
+  names: string[];
+  variants: string[];
+}
+
+async function resolveCompany(endpoint: string, name: string): Promise<CompanyResolution> {
+  const field = COMPANY_FIELDS[endpoint]!;
+  const core = normalizeCompanyName(name);
+  const subsidiaries = (loadCompanyAliases().get(core) ?? []).filter((s) => normalizeCompanyName(s) !== core);
+  const names = [name.replace(/"/g, "").trim(), ...subsidiaries.map((s) => s.replace(/"/g, "").trim())];
+
+  const counts = new Map<string, number>();
+  for (const n of names) {
+    const nameCore = normalizeCompanyName(n);
+    if (!nameCore) continue;
+    const { data } = await queryOpenFDA(endpoint, [`${field}:"${nameCore}"`], { count: `${field}.exact`, limit: 1000 });
+    for (const r of data.results ?? []) {
+      const term = String(r.term ?? "");
+      if (!term || term.includes('"') || normalizeCompanyName(term) !== nameCore) continue;
+      counts.set(term, (counts.get(term) ?? 0) + Number(r.count ?? 0));
+    }
+  }
+  const variants = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_COMPANY_VARIANTS).map(([term]) => term);
+
+  // The phrases as typed stay in, so expansion never matches less than before.
+  // Names come from users and count results, so & # + % are escaped for the URL.
+  const clauses = [
+    ...names.map((n) => `${field}:"${escapeExpressionValue(n)}"`),
+    ...variants.map((v) => `${field}.exact:"${escapeExpressionValue(v)}"`),
+  ];
+  return { part: clauses.length > 1 ? `(${clauses.join("+")})` : clauses[0]!, names, variants };
+}
+
+function formatCompanySearch(company: CompanyResolution): string {
+  const aliases = company.names.length > 1 ? ` (with aliases: ${company.names.slice(1).join(", ")})` : "";
+  const variants = company.variants.length ? company.variants.map((v) => `"${v}"`).join(", ") : "no exact variants found — phrase match only";
+  return `Company names searched for "${company.names[0]}"${aliases}: ${variants}`;
+}
+
+// ─── Synonym Map ──────────────────────────────────────────────────────────────
+// Maps common user terms → FDA formal terminology. Keys must be lowercase and may
+// span several words. The user's synonym file is laid over these built-ins.
+const SYNONYMS: Record<string, string[]> = {
+  ecg: ["electrocardiograph"],
+  ekg: ["electrocardiograph"],
+  robot: ["computer controlled instrument"],
+  robotic: ["computer controlled instrument"],
+  bp: ["blood pressure"],
+  cgm: ["continuous glucose monitor"],
+  ai: ["artificial intelligence"],
+  mri: ["magnetic resonance imaging"],
+  ct: ["computed tomography"],
+  xray: ["x-ray"],
+  "x-ray": ["radiographic"],
+  ultrasound: ["ultrasonic"],
+  cpap: ["continuous positive airway pressure"],
+  tens: ["transcutaneous electrical nerve stimulation"],
+  iud: ["intrauterine"],
+  stent: ["endoprosthesis"],
+  pacemaker: ["pulse generator"],
+  defibrillator: ["defibrillator"],
+  ventilator: ["ventilator"],
+  catheter: ["catheter"],
+  laser: ["laser"],
+  pump: ["infusion pump"],
+  thermometer: ["thermometer"],
+  oximeter: ["oximeter"],
+  hearing: ["hearing aid"],
+  insulin: ["insulin"],
+  dialysis: ["hemodialysis"],
+  prosthetic: ["prosthesis"],
+  implant: ["implant"],
+  endoscope: ["endoscope"],
+  monitor: ["monitor"],
+  wearable: ["wearable"],
+  patch: ["ambulatory"],
+  portable: ["portable"],
+  wireless: ["wireless"],
+  bluetooth: ["wireless"],
+  home: ["home use"],
+  otc: ["over-the-counter"],
+  samd: ["software"],
+  "software device": ["software"],
+  app: ["software", "mobile"],
+  cad: ["computer aided detection"],
+  "cad-x": ["computer aided diagnosis"],
+  triage: ["triage"],
+  diagnostic: ["diagnostic"],
+  screening: ["screening"],
+  imaging: ["image processing"],
+  ehr: ["electronic health record"],
+  clinical: ["clinical decision support"],
+  cds: ["clinical decision support"],
+  ml: ["machine learning"],
+  "deep learning": ["machine learning"],
+  algorithm: ["algorithm"],
+  waveform: ["electrocardiograph"],
+  "heart monitor": ["electrocardiograph"],
+  "heart rate": ["heart rate"],
+  "blood sugar": ["glucose"],
+  glucometer: ["glucose meter"],
+  spo2: ["oximeter"],
+  "sleep apnea": ["sleep apnea"],
+  oct: ["optical coherence tomography"],
+  pet: ["positron emission tomography"],
+  eeg: ["electroencephalograph"],
+  emg: ["electromyograph"],
+  "heart failure": ["ejection fraction"],
+  segmentation: ["contouring"],
+  arrhythmia: ["arrhythmia"],
+  afib: ["atrial fibrillation"],
+  "a-fib": ["atrial fibrillation"],
+  glaucoma: ["glaucoma"],
+  retinopathy: ["retinopathy"],
+  "macular degeneration": ["macular degeneration"],
+  mammography: ["mammograph"],
+  mammogram: ["mammograph"],
+  polyp: ["lesion"],
+  colonoscopy: ["endoscope gastrointestinal"],
+  endoscopy: ["endoscope"],
+  dental: ["dental"],
+  dermatology: ["dermatoscope"],
+  retinal: ["retinal"],
+  fundus: ["fundus"],
+  stroke: ["stroke"],
+  aneurysm: ["aneurysm"],
+  fracture: ["fracture"],
+  tumor: ["lesion"],
+  cancer: ["cancer"],
+  detection: ["detection"],
+  diagnosis: ["diagnosis"],
+};
+
+function normalizeSynonymKey(term: string): string {
+  return term.toLowerCase().replace(/[^a-z0-9\s-]/g, " ").replace(/\s+/g, " ").trim();
+}
+
+let synonymCache: { path: string; mtimeMs: number; user: Map<string, string[]>; merged: Map<string, string[]> } | null = null;
+
+// Built-ins plus the user's synonym file, re-read whenever the file changes. A
+// key in the file replaces the built-in entry for that key.
+function loadSynonyms(): { user: Map<string, string[]>; merged: Map<string, string[]> } {
+  const path = CONFIG.synonymsFile;
+  const mtimeMs = existsSync(path) ? statSync(path).mtimeMs : 0;
+  if (synonymCache?.path === path && synonymCache.mtimeMs === mtimeMs) return synonymCache;
+
+  const user = new Map<string, string[]>();
+  if (mtimeMs) {
+    try {
+      const file = JSON.parse(readFileSync(path, "utf8")) as Record<string, unknown>;
+      for (const [term, synonyms] of Object.entries(file)) {
+        const key = normalizeSynonymKey(term);
+        if (!key || !Array.isArray(synonyms)) continue;
+        const values = synonyms.filter((s): s is string => typeof s === "string").map(normalizeSynonymKey).filter(Boolean);
+        if (values.length) user.set(key, values);
+      }
+    } catch (err) {
+      console.error(`fda-devices: ignoring unreadable synonym file ${path}: ${err}`);
+    }
+  }
+  const merged = new Map([...Object.entries(SYNONYMS), ...user]);
+  synonymCache = { path, mtimeMs, user, merged };
+  return synonymCache;
+}
+
+interface SynonymSegment {
+  words: string[];
+  key: string | null;
+  synonyms: string[];
+}
+
+// Split query terms into runs that match a synonym key, longest key first, so
+// "deep learning" wins over a "deep" entry
+function matchSynonyms(terms: string[]): SynonymSegment[] {
+  const synonyms = loadSynonyms().merged;
+  const maxWords = Math.max(1, ...[...synonyms.keys()].map((k) => k.split(" ").length));
+  const segments: SynonymSegment[] = [];
+  for (let i = 0; i < terms.length; ) {
+    let n = Math.min(maxWords, terms.length - i);
+    for (; n > 1; n--) if (synonyms.has(normalizeSynonymKey(terms.slice(i, i + n).join(" ")))) break;
+    const words = terms.slice(i, i + n);
+    const key = normalizeSynonymKey(words.join(" "));
+    const values = synonyms.get(key);
+    segments.push(values ? { words, key, synonyms: values } : { words, key: null, synonyms: [] });
+    i += n;
+  }
+  return segments;
+}
+
+// Expand user query terms using synonym map. Returns deduplicated expanded terms array.
+function expandSynonyms(terms: string[]): string[] {
+  const expanded: string[] = [];
+  const seen = new Set<string>();
+  const add = (word: string) => {
+    const lower = word.toLowerCase();
+    if (!seen.has(lower)) {
+      seen.add(lower);
+      expanded.push(word);
+    }
+  };
+  for (const segment of matchSynonyms(terms)) {
+    if (segment.key) {
+      for (const syn of segment.synonyms) syn.split(/\s+/).forEach(add);
+    } else {
+      segment.words.forEach(add);
+    }
+  }
+  return expanded;
+}
+
+// Generate term combinations ordered by length (longest first), then left-to-right.
+// For [A, B, C] → [[A,B,C], [A,B], [B,C], [A,C], [A], [B], [C]]
+function generateCombinations(terms: string[]): string[][] {
+  if (terms.length <= 1) return [terms];
+
+  const combos: string[][] = [];
+  // Group by size, largest first
+  for (let size = terms.length; size >= 1; size--) {
+    // Generate all contiguous and non-contiguous combos of this size
+    const indices = getCombinationIndices(terms.length, size);
+    for (const idx of indices) {
+      combos.push(idx.map((i) => terms[i]));
+    }
+  }
+  return combos;
+}
+
+// Get all index combinations of `size` from `n` items, preferring contiguous runs
+function getCombinationIndices(n: number, size: number): number[][] {
+  const contiguous: number[][] = [];
+  const nonContiguous: number[][] = [];
+
+  function* combine(start: number, picked: number[]): Generator<number[]> {
     if (picked.length === size) { yield [...picked]; return; }
     for (let i = start; i < n; i++) {
       picked.push(i);
@@ -322,730 +1698,5023 @@ function getCombinationIndices(n: number, size: number): number[][] {
     }
   }
 
-  for (const combo of combine(0, [])) {
-    // Check if contiguous
-    let isContiguous = true;
-    for (let i = 1; i < combo.length; i++) {
-      if (combo[i] !== combo[i - 1] + 1) { isContiguous = false; break; }
-    }
-    if (isContiguous) contiguous.push(combo);
-    else nonContiguous.push(combo);
-  }
+  for (const combo of combine(0, [])) {
+    // Check if contiguous
+    let isContiguous = true;
+    for (let i = 1; i < combo.length; i++) {
+      if (combo[i] !== combo[i - 1] + 1) { isContiguous = false; break; }
+    }
+    if (isContiguous) contiguous.push(combo);
+    else nonContiguous.push(combo);
+  }
+
+  return [...contiguous, ...nonContiguous];
+}
+
+// Score how relevant results are to the original query terms.
+// Returns 0-1 where 1 = all original terms "covered" in device names/definitions.
+// A term is "covered" if either the term itself appears, or ALL words of a synonym expansion appear.
+function scoreResults(results: ClassificationApiRecord[], originalTerms: string[]): number {
+  if (!results.length || !originalTerms.length) return 0;
+
+  // Build a coverage map: for each original term, what match patterns count?
+  // Each pattern is either a single word (must appear) or a multi-word phrase (ALL words must appear).
+  // A term inside a multi-word key ("deep" in "deep learning") takes that key's synonyms.
+  const segmentSynonyms = matchSynonyms(originalTerms).flatMap((segment) => segment.words.map(() => segment.synonyms));
+  const coverageMap: { original: string; patterns: string[][] }[] = originalTerms.map((t, i) => {
+    const lower = t.toLowerCase();
+    const patterns: string[][] = [[lower]]; // the literal term itself (single word)
+    for (const syn of segmentSynonyms[i] ?? []) {
+      patterns.push(syn.toLowerCase().split(/\s+/)); // multi-word: ALL must match
+    }
+    return { original: lower, patterns };
+  });
+
+  let totalScore = 0;
+  for (const r of results) {
+    const name = (r.device_name ?? "").toLowerCase();
+    const def = (r.definition ?? "").toLowerCase();
+    const text = `${name} ${def}`;
+    let covered = 0;
+    for (const { patterns } of coverageMap) {
+      // A term is covered if ANY pattern matches (where multi-word patterns require ALL words)
+      const isCovered = patterns.some((words) => words.every((w) => text.includes(w)));
+      if (isCovered) covered++;
+    }
+    totalScore += covered / coverageMap.length;
+  }
+  return totalScore / results.length;
+}
+
+const DISCLAIMER = "openFDA data is unvalidated. Verify on FDA.gov before making regulatory decisions.";
+
+function formatFooter(url: string, meta?: OpenFDAResponse["meta"]): string {
+  const lastUpdated = meta?.last_updated ?? "unknown";
+  return [
+    "---",
+    `Query: ${decodeURIComponent(redactApiKey(url))}`,
+    meta?.local
+      ? `Data source: openFDA bulk download, local index (dump date: ${lastUpdated})`
+      : `Data source: openFDA (last updated: ${lastUpdated})`,
+    ...formatCallStats(),
+    `Disclaimer: ${DISCLAIMER}`,
+  ].join("\n");
+}
+
+function redactedUrl(url: string): string {
+  return decodeURIComponent(redactApiKey(url));
+}
+
+// Footer for multi-query tools, whose query URLs are listed next to each part.
+// Endpoints answered from the bulk-data index show their dump date instead.
+function formatMultiQueryFooter(lastUpdated: Record<string, string | null>): string {
+  const local = new Set(callStats.getStore()?.localEndpoints);
+  const entries = Object.entries(lastUpdated);
+  const allLocal = entries.length > 0 && entries.every(([endpoint]) => local.has(endpoint));
+  const dates = entries
+    .map(([endpoint, date]) => `${endpoint} ${date ?? "unknown"}${local.has(endpoint) && !allLocal ? " (local dump)" : ""}`)
+    .join(", ");
+  return [
+    "---",
+    allLocal
+      ? `Data source: openFDA bulk download, local index (dump date: ${dates})`
+      : `Data source: openFDA (last updated: ${dates || "unknown"})`,
+    ...formatCallStats(),
+    `Disclaimer: ${DISCLAIMER}`,
+  ].join("\n");
+}
+
+function formatError(data: OpenFDAResponse, url: string): string {
+  const msg = data.error?.message ?? "Unknown error";
+  return `Error: ${msg}\n\n${formatFooter(url, data.meta)}`;
+}
+
+// ─── Structured Output ───────────────────────────────────────────────────────
+// Every tool declares an outputSchema and returns structuredContent next to the
+// markdown text. Records carry the same source links as the text, and `source`
+// carries what formatFooter prints.
+
+const nullableString = z.string().nullable();
+
+const SourceSchema = z.object({
+  query_url: z.string().describe("openFDA API URL used (API key redacted)"),
+  last_updated: nullableString.describe("openFDA meta.last_updated"),
+  notes: z.array(z.string()).describe("Cache, throttling and retry notes for this call"),
+  schema_warnings: z.array(z.object({
+    endpoint: z.string(),
+    field: z.string().describe("Field path; [] marks an array element"),
+    problem: z.enum(["missing", "retyped"]),
+    expected: z.string(),
+    received: nullableString,
+    records: z.number().describe("Records in this call with the problem"),
+  })).describe("Fields that no longer match the record model — openFDA may have renamed or re-typed them"),
+  disclaimer: z.string(),
+});
+
+const ClassificationRecordSchema = z.object({
+  product_code: nullableString,
+  device_name: nullableString,
+  device_class: nullableString,
+  regulation_number: nullableString,
+  medical_specialty: nullableString,
+  medical_specialty_description: nullableString,
+  definition: nullableString,
+  implant_flag: nullableString,
+  life_sustain_support_flag: nullableString,
+  gmp_exempt_flag: nullableString,
+  third_party_flag: nullableString,
+  submission_type_id: nullableString,
+  review_panel: nullableString,
+  source_url: nullableString,
+  ecfr_url: nullableString,
+  found_via_510k: z.array(z.string()).optional().describe("510(k) device names that led to this code (510(k) bridge only)"),
+});
+
+const PremarketNotificationSchema = z.object({
+  k_number: nullableString,
+  device_name: nullableString,
+  applicant: nullableString,
+  decision_code: nullableString,
+  decision_description: nullableString,
+  clearance_type: nullableString,
+  decision_date: nullableString,
+  date_received: nullableString,
+  days_to_decision: z.number().nullable(),
+  product_code: nullableString,
+  advisory_committee: nullableString,
+  advisory_committee_description: nullableString,
+  statement_or_summary: nullableString,
+  source_url: nullableString,
+});
+
+const DeNovoRecordSchema = z.object({
+  den_number: nullableString,
+  device_name: nullableString,
+  requester: nullableString,
+  decision_code: nullableString,
+  decision_date: nullableString,
+  date_received: nullableString,
+  days_to_decision: z.number().nullable(),
+  product_code: nullableString,
+  advisory_committee: nullableString,
+  advisory_committee_description: nullableString,
+  created_product_code: z.boolean().nullable().describe("True when this grant is the first decision under its product code — the grant created the code. Null if not checked"),
+  source_url: nullableString,
+  summary_url: nullableString,
+  classification_url: nullableString,
+});
+
+const PMARecordSchema = z.object({
+  pma_number: nullableString,
+  supplement_number: nullableString,
+  supplement_type: nullableString,
+  supplement_reason: nullableString,
+  trade_name: nullableString,
+  generic_name: nullableString,
+  applicant: nullableString,
+  decision_code: nullableString,
+  decision_date: nullableString,
+  product_code: nullableString,
+  advisory_committee: nullableString,
+  advisory_committee_description: nullableString,
+  source_url: nullableString,
+});
+
+const SupplementTypeGroupSchema = z.object({
+  supplement_type: z.string(),
+  count: z.number(),
+  by_year: z.record(z.string(), z.number()),
+  reasons: z.array(z.object({ reason: z.string(), count: z.number() })).describe("Supplement reasons, most frequent first"),
+  supplements: z.array(PMARecordSchema).describe("Most recent supplements of this type, oldest first"),
+});
+
+const PMAHistorySchema = z.object({
+  pma_number: z.string(),
+  original: PMARecordSchema.nullable().describe("Original approval; null when openFDA has no record without a supplement number"),
+  original_url: nullableString.describe("Query that fetched the original approval"),
+  supplement_count: z.number(),
+  by_year: z.record(z.string(), z.number()).describe("Supplements per decision year"),
+  by_type: z.array(SupplementTypeGroupSchema),
+  records_fetched: z.number(),
+  truncated: z.boolean().describe("True when the PMA has more records than were fetched"),
+});
+
+const RecallSeveritySchema = z.object({
+  classification: nullableString.describe("Class I, II or III; null when not matched"),
+  match: z.enum(["recall_number", "firm_and_date", "ambiguous", "unmatched", "skipped", "error"]).describe("How the enforcement report was matched; error means the lookup failed, skipped that the fallback's firm limit was reached"),
+  enforcement_recall_number: nullableString,
+});
+
+const RecallRecordSchema = z.object({
+  recall_number: nullableString.describe("product_res_number"),
+  cfres_id: nullableString,
+  recalling_firm: nullableString,
+  product_description: nullableString,
+  reason_for_recall: nullableString,
+  root_cause_description: nullableString,
+  recall_status: nullableString,
+  event_date_initiated: nullableString,
+  event_date_posted: nullableString,
+  product_quantity: nullableString,
+  distribution_pattern: nullableString,
+  code_info: nullableString,
+  product_code: nullableString,
+  k_numbers: z.array(z.string()),
+  source_url: nullableString,
+  severity: RecallSeveritySchema.optional().describe("Joined from the enforcement endpoint when include_severity is set"),
+});
+
+const EnforcementRecordSchema = z.object({
+  recall_number: nullableString,
+  classification: nullableString,
+  status: nullableString,
+  recalling_firm: nullableString,
+  city: nullableString,
+  state: nullableString,
+  country: nullableString,
+  product_description: nullableString,
+  product_quantity: nullableString,
+  reason_for_recall: nullableString,
+  code_info: nullableString,
+  distribution_pattern: nullableString,
+  voluntary_mandated: nullableString,
+  recall_initiation_date: nullableString,
+  center_classification_date: nullableString,
+  report_date: nullableString,
+  termination_date: nullableString,
+  event_id: nullableString,
+  source_url: z.string(),
+});
+
+const nullableFlag = z.boolean().nullable();
+
+const UDIRecordSchema = z.object({
+  primary_di: nullableString,
+  brand_name: nullableString,
+  version_or_model_number: nullableString,
+  catalog_number: nullableString,
+  company_name: nullableString,
+  device_description: nullableString,
+  identifiers: z.array(z.object({
+    id: z.string(),
+    type: nullableString,
+    issuing_agency: nullableString,
+    quantity_per_package: nullableString,
+  })),
+  gmdn_terms: z.array(z.object({ name: z.string(), definition: nullableString })),
+  product_codes: z.array(z.object({
+    code: z.string(),
+    name: nullableString,
+    device_class: nullableString,
+    classification_url: z.string(),
+  })),
+  premarket_submissions: z.array(z.object({
+    submission_number: z.string(),
+    supplement_number: nullableString,
+    source_url: nullableString,
+  })),
+  sterilization: z.object({
+    is_sterile: nullableFlag,
+    sterilize_prior_to_use: nullableFlag,
+    methods: z.array(z.string()),
+  }),
+  mri_safety: nullableString,
+  is_rx: nullableFlag,
+  is_otc: nullableFlag,
+  is_single_use: nullableFlag,
+  commercial_distribution_status: nullableString,
+  publish_date: nullableString,
+  source_url: nullableString,
+});
+
+const RegistrationRecordSchema = z.object({
+  registration_number: nullableString,
+  fei_number: nullableString,
+  name: nullableString,
+  address: nullableString,
+  country_code: nullableString,
+  registration_expiry_year: nullableString,
+  owner_operator: z.object({
+    firm_name: nullableString,
+    owner_operator_number: nullableString,
+    address: nullableString,
+  }).nullable(),
+  establishment_types: z.array(z.string()),
+  proprietary_names: z.array(z.string()),
+  products: z.array(z.object({
+    product_code: z.string(),
+    device_name: nullableString,
+    device_class: nullableString,
+    exempt: nullableString,
+    created_date: nullableString,
+    classification_url: z.string(),
+  })),
+  source_url: z.string(),
+});
+
+const AdverseEventRecordSchema = z.object({
+  mdr_report_key: nullableString,
+  report_number: nullableString,
+  event_type: nullableString,
+  date_of_event: nullableString,
+  date_received: nullableString,
+  report_source: nullableString,
+  brand_name: nullableString,
+  generic_name: nullableString,
+  manufacturer: nullableString,
+  model_number: nullableString,
+  product_code: nullableString,
+  patient_outcome: nullableString,
+  event_description: nullableString,
+  source_url: nullableString,
+});
+
+const EventDeviceSchema = z.object({
+  sequence_number: nullableString,
+  brand_name: nullableString,
+  generic_name: nullableString,
+  manufacturer: nullableString,
+  manufacturer_country: nullableString,
+  model_number: nullableString,
+  catalog_number: nullableString,
+  lot_number: nullableString,
+  product_code: nullableString,
+  device_class: nullableString,
+  udi_di: nullableString,
+  udi_public: nullableString,
+  operator: nullableString,
+  availability: nullableString,
+  evaluated_by_manufacturer: nullableString,
+  implant_flag: nullableString,
+  device_age: nullableString,
+});
+
+const EventPatientSchema = z.object({
+  sequence_number: nullableString,
+  age: nullableString,
+  sex: nullableString,
+  weight: nullableString,
+  outcomes: z.array(z.string()),
+  treatments: z.array(z.string()),
+  problems: z.array(z.string()).describe("Patient problem terms"),
+});
+
+const AdverseEventDetailSchema = z.object({
+  mdr_report_key: nullableString,
+  report_number: nullableString,
+  event_type: nullableString,
+  event_location: nullableString,
+  date_of_event: nullableString,
+  date_received: nullableString,
+  date_report: nullableString,
+  date_facility_aware: nullableString,
+  date_manufacturer_received: nullableString,
+  date_added: nullableString,
+  date_changed: nullableString,
+  report_source: nullableString,
+  source_type: z.array(z.string()),
+  type_of_report: z.array(z.string()),
+  reporter_occupation: nullableString,
+  health_professional: nullableString,
+  reporting_manufacturer: nullableString,
+  adverse_event_flag: nullableString,
+  product_problem_flag: nullableString,
+  product_problems: z.array(z.string()).describe("Device problem terms"),
+  remedial_action: z.array(z.string()),
+  previous_use_code: nullableString,
+  single_use_flag: nullableString,
+  reprocessed_and_reused_flag: nullableString,
+  number_devices_in_event: nullableString,
+  number_patients_in_event: nullableString,
+  devices: z.array(EventDeviceSchema),
+  patients: z.array(EventPatientSchema),
+  narratives: z.array(z.object({
+    text_type: nullableString,
+    patient_sequence_number: nullableString,
+    text: z.string(),
+  })).describe("Every mdr_text section, in record order"),
+  source_url: nullableString,
+});
+
+// Shared by the search tools: total, paging and source around the records
+const CompanySearchSchema = z.object({
+  names: z.array(z.string()).describe("Company name as given, then alias-file subsidiaries"),
+  variants: z.array(z.string()).describe("Exact company strings found in openFDA and searched"),
+});
+
+function searchOutputSchema<T extends z.ZodType>(record: T) {
+  return z.object({
+    total: z.number(),
+    skip: z.number(),
+    next_cursor: nullableString,
+    records: z.array(record),
+    source: SourceSchema,
+    company: CompanySearchSchema.optional().describe("Company variants searched, when a company filter was given"),
+  });
+}
+
+const SynonymCandidateSchema = z.object({
+  term: z.string().describe("The query's terms, as a synonym key"),
+  synonyms: z.array(z.string()).describe("Classification name the terms should map to"),
+  product_code: z.string(),
+});
+
+const ClassifyOutputSchema = z.object({
+  total: z.number(),
+  records: z.array(ClassificationRecordSchema),
+  bridge_510k_matches: z.array(PremarketNotificationSchema).optional().describe("510(k) records that led to the classifications (510(k) bridge only)"),
+  synonym_candidate: SynonymCandidateSchema.optional().describe("Synonym that would find the top classification directly; save it with manage_synonyms (510(k) bridge only)"),
+  source: SourceSchema,
+});
+const Search510kOutputSchema = searchOutputSchema(PremarketNotificationSchema);
+const SearchPMAOutputSchema = searchOutputSchema(PMARecordSchema).extend({
+  history: PMAHistorySchema.optional().describe("History mode: every record for one PMA number, grouped"),
+});
+const SearchDeNovoOutputSchema = searchOutputSchema(DeNovoRecordSchema);
+const SearchRecallsOutputSchema = searchOutputSchema(RecallRecordSchema).extend({
+  severity_source: SourceSchema.optional().describe("Enforcement query used for the severity join"),
+});
+const SearchEnforcementOutputSchema = searchOutputSchema(EnforcementRecordSchema);
+const SearchUDIOutputSchema = searchOutputSchema(UDIRecordSchema);
+const SearchRegistrationsOutputSchema = searchOutputSchema(RegistrationRecordSchema);
+const SearchEventsOutputSchema = searchOutputSchema(AdverseEventRecordSchema).extend({
+  caveat: z.string().describe("Mandatory MAUDE caveat — convey it with the data"),
+});
+
+type ClassificationRecord = z.infer<typeof ClassificationRecordSchema>;
+type DeNovoRecord = z.infer<typeof DeNovoRecordSchema>;
+type RecallSeverity = z.infer<typeof RecallSeveritySchema>;
+type UDIRecord = z.infer<typeof UDIRecordSchema>;
+type RegistrationRecord = z.infer<typeof RegistrationRecordSchema>;
+type ClassifyOutput = z.infer<typeof ClassifyOutputSchema>;
+
+function asString(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  return String(value);
+}
+
+function sourceInfo(url: string, meta?: OpenFDAResponse["meta"]): z.infer<typeof SourceSchema> {
+  return {
+    query_url: decodeURIComponent(redactApiKey(url)),
+    last_updated: meta?.last_updated ?? null,
+    notes: formatCallStats(),
+    schema_warnings: callStats.getStore()?.schemaWarnings.map((w) => ({ ...w })) ?? [],
+    disclaimer: DISCLAIMER,
+  };
+}
+
+function toClassificationRecord(r: ClassificationApiRecord): ClassificationRecord {
+  const pc = asString(r.product_code);
+  const regNum = asString(r.regulation_number);
+  return {
+    product_code: pc,
+    device_name: asString(r.device_name),
+    device_class: asString(r.device_class),
+    regulation_number: regNum,
+    medical_specialty: asString(r.medical_specialty),
+    medical_specialty_description: asString(r.medical_specialty_description),
+    definition: asString(r.definition),
+    implant_flag: asString(r.implant_flag),
+    life_sustain_support_flag: asString(r.life_sustain_support_flag),
+    gmp_exempt_flag: asString(r.gmp_exempt_flag),
+    third_party_flag: asString(r.third_party_flag),
+    submission_type_id: asString(r.submission_type_id),
+    review_panel: asString(r.review_panel),
+    source_url: pc ? linkClassification(pc) : null,
+    ecfr_url: regNum ? linkECFR(regNum) || null : null,
+  };
+}
+
+function toPremarketNotification(r: PremarketApiRecord): z.infer<typeof PremarketNotificationSchema> {
+  const kn = asString(r.k_number);
+  const decisionDate = normalizeDateResponse(r.decision_date);
+  const receivedDate = normalizeDateResponse(r.date_received);
+  return {
+    k_number: kn,
+    device_name: asString(r.device_name),
+    applicant: asString(r.applicant),
+    decision_code: asString(r.decision_code),
+    decision_description: asString(r.decision_description),
+    clearance_type: asString(r.clearance_type),
+    decision_date: decisionDate,
+    date_received: receivedDate,
+    days_to_decision: decisionDate && receivedDate ? daysBetween(receivedDate, decisionDate) : null,
+    product_code: asString(r.product_code),
+    advisory_committee: asString(r.advisory_committee),
+    advisory_committee_description: asString(r.advisory_committee_description),
+    statement_or_summary: asString(r.statement_or_summary),
+    source_url: kn ? link510kRecord(kn) : null,
+  };
+}
+
+function toDeNovoRecord(r: PremarketApiRecord): DeNovoRecord {
+  const k = toPremarketNotification(r);
+  const den = k.k_number?.toUpperCase() ?? null;
+  return {
+    den_number: den,
+    device_name: k.device_name,
+    requester: k.applicant,
+    decision_code: k.decision_code,
+    decision_date: k.decision_date,
+    date_received: k.date_received,
+    days_to_decision: k.days_to_decision,
+    product_code: k.product_code,
+    advisory_committee: k.advisory_committee,
+    advisory_committee_description: k.advisory_committee_description,
+    created_product_code: null,
+    source_url: den ? linkDeNovo(den) : null,
+    summary_url: den ? linkDeNovoSummary(den) : null,
+    classification_url: k.product_code ? linkClassification(k.product_code) : null,
+  };
+}
+
+function toPMARecord(r: PMAApiRecord): z.infer<typeof PMARecordSchema> {
+  const pn = asString(r.pma_number);
+  return {
+    pma_number: pn,
+    supplement_number: asString(r.supplement_number),
+    supplement_type: asString(r.supplement_type),
+    supplement_reason: asString(r.supplement_reason),
+    trade_name: asString(r.trade_name),
+    generic_name: asString(r.generic_name),
+    applicant: asString(r.applicant),
+    decision_code: asString(r.decision_code),
+    decision_date: normalizeDateResponse(r.decision_date),
+    product_code: asString(r.product_code),
+    advisory_committee: asString(r.advisory_committee),
+    advisory_committee_description: asString(r.advisory_committee_description),
+    source_url: pn ? linkPMA(pn) : null,
+  };
+}
+
+function toRecallRecord(r: RecallApiRecord): z.infer<typeof RecallRecordSchema> {
+  const cfresId = asString(r.cfres_id);
+  const openfda = r.openfda;
+  return {
+    recall_number: asString(r.product_res_number),
+    cfres_id: cfresId,
+    recalling_firm: asString(r.recalling_firm),
+    product_description: asString(r.product_description),
+    reason_for_recall: asString(r.reason_for_recall),
+    root_cause_description: asString(r.root_cause_description),
+    recall_status: asString(r.recall_status),
+    event_date_initiated: normalizeDateResponse(r.event_date_initiated),
+    event_date_posted: normalizeDateResponse(r.event_date_posted),
+    product_quantity: asString(r.product_quantity),
+    distribution_pattern: asString(r.distribution_pattern),
+    code_info: asString(r.code_info),
+    product_code: asString(r.product_code),
+    k_numbers: openfda?.k_number ?? [],
+    source_url: cfresId ? linkRecall(cfresId) : null,
+  };
+}
+
+// GUDID flags come back as "true"/"false" strings
+function asFlag(value: unknown): boolean | null {
+  if (value === true || value === "true") return true;
+  if (value === false || value === "false") return false;
+  return null;
+}
+
+function asRecords(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value.filter((v): v is Record<string, unknown> => typeof v === "object" && v !== null) : [];
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(asString).filter((v): v is string => v !== null && v.trim() !== "") : [];
+}
+
+function toUDIRecord(r: Record<string, unknown>): UDIRecord {
+  const identifiers = asRecords(r.identifiers)
+    .filter((i) => asString(i.id))
+    .map((i) => ({
+      id: String(i.id),
+      type: asString(i.type),
+      issuing_agency: asString(i.issuing_agency),
+      quantity_per_package: asString(i.quantity_per_package),
+    }));
+  const primaryDI = identifiers.find((i) => i.type === "Primary")?.id ?? identifiers[0]?.id ?? null;
+  const sterilization = (r.sterilization ?? {}) as Record<string, unknown>;
+  const methods = sterilization.sterilization_methods;
+
+  return {
+    primary_di: primaryDI,
+    brand_name: asString(r.brand_name),
+    version_or_model_number: asString(r.version_or_model_number),
+    catalog_number: asString(r.catalog_number),
+    company_name: asString(r.company_name),
+    device_description: asString(r.device_description),
+    identifiers,
+    gmdn_terms: asRecords(r.gmdn_terms)
+      .filter((g) => asString(g.name))
+      .map((g) => ({ name: String(g.name), definition: asString(g.definition) })),
+    product_codes: asRecords(r.product_codes)
+      .filter((p) => asString(p.code))
+      .map((p) => {
+        const code = String(p.code).toUpperCase();
+        const openfda = (p.openfda ?? {}) as Record<string, unknown>;
+        return { code, name: asString(p.name), device_class: asString(openfda.device_class), classification_url: linkClassification(code) };
+      }),
+    premarket_submissions: asRecords(r.premarket_submissions)
+      .filter((p) => asString(p.submission_number))
+      .map((p) => {
+        const number = String(p.submission_number).toUpperCase();
+        return { submission_number: number, supplement_number: asString(p.supplement_number), source_url: linkSubmission(number) };
+      }),
+    sterilization: {
+      is_sterile: asFlag(sterilization.is_sterile),
+      sterilize_prior_to_use: asFlag(sterilization.is_sterilization_prior_use),
+      methods: (Array.isArray(methods) ? methods : methods ? [methods] : []).map(String),
+    },
+    mri_safety: asString(r.mri_safety),
+    is_rx: asFlag(r.is_rx),
+    is_otc: asFlag(r.is_otc),
+    is_single_use: asFlag(r.is_single_use),
+    commercial_distribution_status: asString(r.commercial_distribution_status),
+    publish_date: normalizeDateResponse(r.publish_date as string),
+    source_url: primaryDI ? linkGUDID(primaryDI) : null,
+  };
+}
+
+function joinAddress(parts: unknown[]): string | null {
+  const joined = parts.map(asString).filter((p): p is string => p !== null).join(", ");
+  return joined || null;
+}
+
+function toRegistrationRecord(r: Record<string, unknown>): RegistrationRecord {
+  const reg = (r.registration ?? {}) as Record<string, unknown>;
+  const owner = reg.owner_operator as Record<string, unknown> | undefined;
+  const ownerAddress = (owner?.contact_address ?? {}) as Record<string, unknown>;
+  const strings = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+
+  return {
+    registration_number: asString(reg.registration_number),
+    fei_number: asString(reg.fei_number),
+    name: asString(reg.name),
+    address: joinAddress([reg.address_line_1, reg.address_line_2, reg.city, reg.state_code, reg.zip_code ?? reg.postal_code, reg.iso_country_code]),
+    country_code: asString(reg.iso_country_code),
+    registration_expiry_year: asString(reg.reg_expiry_date_year),
+    owner_operator: owner
+      ? {
+          firm_name: asString(owner.firm_name),
+          owner_operator_number: asString(owner.owner_operator_number),
+          address: joinAddress([ownerAddress.address_1, ownerAddress.address_2, ownerAddress.city, ownerAddress.state_code, ownerAddress.postal_code, ownerAddress.iso_country_code]),
+        }
+      : null,
+    establishment_types: strings(r.establishment_type),
+    proprietary_names: strings(r.proprietary_name),
+    products: asRecords(r.products)
+      .filter((p) => asString(p.product_code))
+      .map((p) => {
+        const code = String(p.product_code).toUpperCase();
+        const openfda = (p.openfda ?? {}) as Record<string, unknown>;
+        return {
+          product_code: code,
+          device_name: asString(openfda.device_name),
+          device_class: asString(openfda.device_class),
+          exempt: asString(p.exempt),
+          created_date: normalizeDateResponse(p.created_date as string),
+          classification_url: linkClassification(code),
+        };
+      }),
+    source_url: REGISTRATION_LISTING_URL,
+  };
+}
+
+function toEnforcementRecord(r: Record<string, unknown>): z.infer<typeof EnforcementRecordSchema> {
+  return {
+    recall_number: asString(r.recall_number),
+    classification: asString(r.classification),
+    status: asString(r.status),
+    recalling_firm: asString(r.recalling_firm),
+    city: asString(r.city),
+    state: asString(r.state),
+    country: asString(r.country),
+    product_description: asString(r.product_description),
+    product_quantity: asString(r.product_quantity),
+    reason_for_recall: asString(r.reason_for_recall),
+    code_info: asString(r.code_info),
+    distribution_pattern: asString(r.distribution_pattern),
+    voluntary_mandated: asString(r.voluntary_mandated),
+    recall_initiation_date: normalizeDateResponse(r.recall_initiation_date as string),
+    center_classification_date: normalizeDateResponse(r.center_classification_date as string),
+    report_date: normalizeDateResponse(r.report_date as string),
+    termination_date: normalizeDateResponse(r.termination_date as string),
+    event_id: asString(r.event_id),
+    source_url: ENFORCEMENT_REPORT_URL,
+  };
+}
+
+function toAdverseEventRecord(r: EventApiRecord): z.infer<typeof AdverseEventRecordSchema> {
+  const device = r.device?.[0] ?? {};
+  const patient = r.patient?.[0];
+  const mdrTexts = r.mdr_text;
+  const eventDesc = mdrTexts?.find((t) => t.text_type_code === "Description of Event or Problem");
+  const mdrKey = asString(r.mdr_report_key);
+  return {
+    mdr_report_key: mdrKey,
+    report_number: asString(r.report_number),
+    event_type: asString(r.event_type),
+    date_of_event: normalizeDateResponse(r.date_of_event),
+    date_received: normalizeDateResponse(r.date_received),
+    report_source: asString(r.report_source_code),
+    brand_name: asString(device.brand_name),
+    generic_name: asString(device.generic_name),
+    manufacturer: asString(device.manufacturer_d_name),
+    model_number: asString(device.model_number),
+    product_code: asString(device.device_report_product_code),
+    patient_outcome: patient ? asString((patient.sequence_number_outcome ?? []).join(", ").trim()) : null,
+    event_description: asString(eventDesc?.text),
+    source_url: mdrKey ? linkMAUDE(mdrKey) : null,
+  };
+}
+
+function toAdverseEventDetail(r: EventApiRecord): z.infer<typeof AdverseEventDetailSchema> {
+  const date = normalizeDateResponse;
+  const mdrKey = asString(r.mdr_report_key);
+  return {
+    mdr_report_key: mdrKey,
+    report_number: asString(r.report_number),
+    event_type: asString(r.event_type),
+    event_location: asString(r.event_location),
+    date_of_event: date(r.date_of_event),
+    date_received: date(r.date_received),
+    date_report: date(r.date_report),
+    date_facility_aware: date(r.date_facility_aware),
+    date_manufacturer_received: date(r.date_manufacturer_received),
+    date_added: date(r.date_added),
+    date_changed: date(r.date_changed),
+    report_source: asString(r.report_source_code),
+    source_type: asStrings(r.source_type),
+    type_of_report: asStrings(r.type_of_report),
+    reporter_occupation: asString(r.reporter_occupation_code),
+    health_professional: asString(r.health_professional),
+    reporting_manufacturer: asString(r.manufacturer_name),
+    adverse_event_flag: asString(r.adverse_event_flag),
+    product_problem_flag: asString(r.product_problem_flag),
+    product_problems: asStrings(r.product_problems),
+    remedial_action: asStrings(r.remedial_action),
+    previous_use_code: asString(r.previous_use_code),
+    single_use_flag: asString(r.single_use_flag),
+    reprocessed_and_reused_flag: asString(r.reprocessed_and_reused_flag),
+    number_devices_in_event: asString(r.number_devices_in_event),
+    number_patients_in_event: asString(r.number_patients_in_event),
+    devices: (r.device ?? []).map((d) => ({
+      sequence_number: asString(d.device_sequence_number),
+      brand_name: asString(d.brand_name),
+      generic_name: asString(d.generic_name),
+      manufacturer: asString(d.manufacturer_d_name),
+      manufacturer_country: asString(d.manufacturer_d_country),
+      model_number: asString(d.model_number),
+      catalog_number: asString(d.catalog_number),
+      lot_number: asString(d.lot_number),
+      product_code: asString(d.device_report_product_code),
+      device_class: asString(d.openfda?.device_class),
+      udi_di: asString(d.udi_di),
+      udi_public: asString(d.udi_public),
+      operator: asString(d.device_operator),
+      availability: asString(d.device_availability),
+      evaluated_by_manufacturer: asString(d.device_evaluated_by_manufacturer),
+      implant_flag: asString(d.implant_flag),
+      device_age: asString(d.device_age_text),
+    })),
+    patients: (r.patient ?? []).map((p) => ({
+      sequence_number: asString(p.patient_sequence_number),
+      age: asString(p.patient_age),
+      sex: asString(p.patient_sex),
+      weight: asString(p.patient_weight),
+      outcomes: asStrings(p.sequence_number_outcome),
+      treatments: asStrings(p.sequence_number_treatment),
+      problems: asStrings(p.patient_problems),
+    })),
+    narratives: (r.mdr_text ?? [])
+      .filter((t) => asString(t.text))
+      .map((t) => ({ text_type: asString(t.text_type_code), patient_sequence_number: asString(t.patient_sequence_number), text: String(t.text) })),
+    source_url: mdrKey ? linkMAUDE(mdrKey) : null,
+  };
+}
+
+function errorResult(text: string) {
+  return { content: [{ type: "text" as const, text }], isError: true };
+}
+
+function structuredResult(text: string, structuredContent: Record<string, unknown>) {
+  return { content: [{ type: "text" as const, text }], structuredContent };
+}
+
+function emptySearchOutput(page: PageCursor, url: string, data: OpenFDAResponse, company?: CompanyResolution | null) {
+  return { total: 0, skip: page.skip, next_cursor: null, records: [], source: sourceInfo(url, data.meta), company: companySearchOutput(company) };
+}
+
+function companySearchOutput(company?: CompanyResolution | null): z.infer<typeof CompanySearchSchema> | undefined {
+  return company ? { names: company.names, variants: company.variants } : undefined;
+}
+
+// ─── PDF Text Extraction ─────────────────────────────────────────────────────
+// Just enough PDF to read 510(k) summaries: objects (including compressed object
+// streams), FlateDecode content streams, text-showing operators, and ToUnicode
+// maps for subset fonts. Scanned summaries have no text layer and come back empty.
+
+interface PdfObject {
+  dict: string;
+  stream?: Buffer | null;
+}
+
+function decodePdfStream(dict: string, data: Buffer): Buffer | null {
+  if (/\/(DCTDecode|JPXDecode|CCITTFaxDecode|JBIG2Decode)/.test(dict)) return null;
+  if (!/\/FlateDecode/.test(dict)) return data;
+  try {
+    return inflateSync(data);
+  } catch {
+    return null;
+  }
+}
+
+function parsePdfObjects(bytes: Buffer): Map<number, PdfObject> {
+  const raw = bytes.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const objRe = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = objRe.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endobj", start);
+    if (end < 0) break;
+    const body = raw.slice(start, end);
+    const streamKeyword = /\bstream\r?\n/.exec(body);
+    if (streamKeyword) {
+      const dataStart = start + streamKeyword.index + streamKeyword[0].length;
+      const dataEnd = raw.lastIndexOf("endstream", end);
+      const dict = body.slice(0, streamKeyword.index);
+      objects.set(Number(match[1]), { dict, stream: dataEnd > dataStart ? decodePdfStream(dict, bytes.subarray(dataStart, dataEnd)) : null });
+    } else {
+      objects.set(Number(match[1]), { dict: body });
+    }
+    objRe.lastIndex = end;
+  }
+
+  // PDF 1.5+ packs font dictionaries into object streams
+  for (const obj of [...objects.values()]) {
+    if (!obj.stream || !/\/Type\s*\/ObjStm/.test(obj.dict)) continue;
+    const count = Number(/\/N\s+(\d+)/.exec(obj.dict)?.[1] ?? 0);
+    const first = Number(/\/First\s+(\d+)/.exec(obj.dict)?.[1] ?? 0);
+    const text = obj.stream.toString("latin1");
+    const header = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const num = header[2 * i];
+      const offset = header[2 * i + 1];
+      if (num === undefined || offset === undefined) break;
+      const next = header[2 * i + 3] ?? text.length - first;
+      if (!objects.has(num)) objects.set(num, { dict: text.slice(first + offset, first + next) });
+    }
+  }
+  return objects;
+}
+
+function utf16Hex(hex: string): string {
+  let out = "";
+  for (let i = 0; i + 4 <= hex.length; i += 4) out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  return out;
+}
+
+function parseToUnicode(cmap: string): Map<number, string> {
+  const map = new Map<number, string>();
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, src, dst] of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(src!, 16), utf16Hex(dst!));
+    }
+  }
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, lo, hi, dst, list] of block[1]!.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]+)>|\[([^\]]*)\])/g)) {
+      const from = parseInt(lo!, 16);
+      const to = Math.min(parseInt(hi!, 16), from + 0xffff);
+      if (dst !== undefined) {
+        const base = utf16Hex(dst);
+        for (let code = from; code <= to; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - from));
+        }
+      } else {
+        [...(list ?? "").matchAll(/<([0-9a-fA-F]+)>/g)].forEach(([, d], i) => map.set(from + i, utf16Hex(d!)));
+      }
+    }
+  }
+  return map;
+}
+
+interface PdfFont {
+  twoByte: boolean;
+  toUnicode: Map<number, string> | null;
+}
+
+// Resource names (/F1) → fonts. Names are collected document-wide, which is
+// wrong only when pages reuse a name for different fonts.
+function collectPdfFonts(objects: Map<number, PdfObject>): Map<string, PdfFont> {
+  const fontFor = (objNum: number): PdfFont | null => {
+    const dict = objects.get(objNum)?.dict;
+    if (!dict || !/\/Type\s*\/Font\b/.test(dict)) return null;
+    const cmapRef = /\/ToUnicode\s+(\d+)\s+\d+\s+R/.exec(dict)?.[1];
+    const cmap = cmapRef ? objects.get(Number(cmapRef))?.stream : null;
+    return { twoByte: /\/Subtype\s*\/Type0/.test(dict), toUnicode: cmap ? parseToUnicode(cmap.toString("latin1")) : null };
+  };
+
+  const fonts = new Map<string, PdfFont>();
+  for (const obj of objects.values()) {
+    for (const [, inline, ref] of obj.dict.matchAll(/\/Font\s*(?:<<([^>]*)>>|(\d+)\s+\d+\s+R)/g)) {
+      const entries = inline ?? (ref ? objects.get(Number(ref))?.dict : undefined) ?? "";
+      for (const [, name, num] of entries.matchAll(/\/([^\s/<>\[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+        const font = fontFor(Number(num));
+        if (font && !fonts.has(name!)) fonts.set(name!, font);
+      }
+    }
+  }
+  return fonts;
+}
+
+function readPdfLiteral(text: string, start: number): { bytes: number[]; end: number } {
+  const bytes: number[] = [];
+  let depth = 1;
+  let i = start + 1;
+  const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+  while (i < text.length && depth > 0) {
+    const ch = text[i]!;
+    if (ch === "\\") {
+      const next = text[i + 1] ?? "";
+      if (/[0-7]/.test(next)) {
+        const octal = /^[0-7]{1,3}/.exec(text.slice(i + 1, i + 4))![0];
+        bytes.push(parseInt(octal, 8) & 0xff);
+        i += 1 + octal.length;
+        continue;
+      }
+      if (next === "\r" || next === "\n") {
+        i += text[i + 2] === "\n" && next === "\r" ? 3 : 2;
+        continue;
+      }
+      bytes.push(escapes[next] ?? next.charCodeAt(0));
+      i += 2;
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) break;
+    bytes.push(ch.charCodeAt(0));
+    i++;
+  }
+  return { bytes, end: i + 1 };
+}
+
+function decodePdfString(bytes: number[], font: PdfFont | undefined): string {
+  let out = "";
+  const step = font?.twoByte ? 2 : 1;
+  for (let i = 0; i + step <= bytes.length; i += step) {
+    const code = step === 2 ? (bytes[i]! << 8) | bytes[i + 1]! : bytes[i]!;
+    out += font?.toUnicode?.get(code) ?? (step === 1 ? String.fromCharCode(code) : "");
+  }
+  return out;
+}
+
+function extractContentText(content: string, fonts: Map<string, PdfFont>): string {
+  let out = "";
+  let font: PdfFont | undefined;
+  let lastName: string | null = null;
+  let pending: string[] = [];
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i]!;
+    if (ch === "(") {
+      const { bytes, end } = readPdfLiteral(content, i);
+      pending.push(decodePdfString(bytes, font));
+      i = end;
+    } else if (ch === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      if (end < 0) break;
+      const hex = content.slice(i + 1, end).replace(/\s+/g, "");
+      const bytes = (hex.length % 2 ? hex + "0" : hex).match(/../g)?.map((h) => parseInt(h, 16)) ?? [];
+      pending.push(decodePdfString(bytes, font));
+      i = end + 1;
+    } else if (ch === "/") {
+      const name = /^\/([^\s/<>\[\]()]+)/.exec(content.slice(i))?.[1] ?? "";
+      lastName = name;
+      i += name.length + 1;
+    } else if (/[-\d.]/.test(ch)) {
+      const num = /^-?[\d.]+/.exec(content.slice(i))?.[0] ?? ch;
+      // A wide negative kern inside a TJ array is a word gap
+      if (Number(num) < -200 && pending.length) pending.push(" ");
+      i += num.length;
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const op = /^[A-Za-z'"*]+/.exec(content.slice(i))?.[0] ?? ch;
+      if (op === "Tf" && lastName) font = fonts.get(lastName);
+      else if (op === "Tj" || op === "TJ") out += pending.join("");
+      else if (op === "'" || op === '"') out += "\n" + pending.join("");
+      else if (op === "Td" || op === "TD" || op === "Tm") out += " ";
+      else if (op === "T*" || op === "ET") out += "\n";
+      pending = [];
+      i += op.length;
+    } else {
+      i++;
+    }
+  }
+  return out;
+}
+
+function extractPdfText(bytes: Uint8Array): string {
+  const objects = parsePdfObjects(Buffer.from(bytes));
+  const fonts = collectPdfFonts(objects);
+  const pages: string[] = [];
+  for (const obj of objects.values()) {
+    if (!obj.stream || /\/Type\s*\/(ObjStm|XRef)/.test(obj.dict)) continue;
+    const content = obj.stream.toString("latin1");
+    if (!/\bBT\b/.test(content) || !/T[jJ]\b/.test(content) || content.includes("begincmap")) continue;
+    pages.push(extractContentText(content, fonts));
+  }
+  return pages.join("\n");
+}
+
+// ─── Summary Documents ───────────────────────────────────────────────────────
+// Where 510(k)/De Novo summaries come from. AccessData by default; with pdf_dir
+// set, a local directory of <number>.pdf files (or <number>.txt, e.g. OCR output
+// for scanned summaries) is used instead, so predicate trees work offline.
+
+interface SummaryDocument {
+  location: string;
+  text: string;
+}
+
+interface DocumentFetcher {
+  name: string;
+  fetch(submissionNumber: string): Promise<SummaryDocument | null>;
+}
+
+function summaryUrl(submissionNumber: string): string | null {
+  if (K_NUMBER_RE.test(submissionNumber)) return link510kSummary(submissionNumber);
+  if (DEN_NUMBER_RE.test(submissionNumber)) return linkDeNovoSummary(submissionNumber);
+  return null;
+}
+
+function createAccessDataFetcher(): DocumentFetcher {
+  return {
+    name: "FDA AccessData",
+    async fetch(submissionNumber) {
+      const url = summaryUrl(submissionNumber);
+      if (!url) return null;
+      const response = await fetch(url, { signal: AbortSignal.timeout(30_000) });
+      if (!response.ok) return null;
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // A missing summary comes back as an HTML error page, not a 404
+      if (!Buffer.from(bytes.subarray(0, 5)).toString("latin1").startsWith("%PDF")) return null;
+      return { location: url, text: extractPdfText(bytes) };
+    },
+  };
+}
+
+function createLocalPdfFetcher(dir: string): DocumentFetcher {
+  return {
+    name: `local directory ${dir}`,
+    async fetch(submissionNumber) {
+      for (const ext of [".txt", ".pdf"]) {
+        for (const name of [submissionNumber, submissionNumber.toLowerCase()]) {
+          const path = join(dir, name + ext);
+          if (!existsSync(path)) continue;
+          const bytes = await readFile(path);
+          return { location: path, text: ext === ".txt" ? bytes.toString("utf8") : extractPdfText(bytes) };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+const documentFetcher: DocumentFetcher = CONFIG.pdfDir ? createLocalPdfFetcher(CONFIG.pdfDir) : createAccessDataFetcher();
+
+// ─── Search Expressions ──────────────────────────────────────────────────────
+// advanced_search parses a boolean expression itself rather than passing it to
+// openFDA, so unknown fields get a "did you mean" instead of a bare 400, and
+// dates are rewritten into each endpoint's native format.
+//
+//   expr   := or
+//   or     := and ("OR" and)*
+//   and    := not (["AND"] not)*        adjacent clauses are ANDed
+//   not    := "NOT" not | "(" expr ")" | clause
+//   clause := field ":" (word | "phrase" | "[" lo "TO" hi "]") | ("_exists_" | "_missing_") ":" field
+
+// Searchable fields per endpoint (SPEC Field Path Reference). Date fields are
+// listed separately with their native format; `.exact` is allowed on any text field.
+const EXPRESSION_FIELDS: Record<string, { text: string[]; dates: string[]; compactDates: boolean }> = {
+  classification: {
+    text: [
+      "product_code", "device_name", "device_class", "regulation_number", "medical_specialty", "medical_specialty_description",
+      "definition", "implant_flag", "life_sustain_support_flag", "gmp_exempt_flag", "third_party_flag", "review_panel",
+      "submission_type_id", "review_code", "unclassified_reason", "summary_malfunction_reporting",
+    ],
+    dates: [],
+    compactDates: false,
+  },
+  "510k": {
+    text: [
+      "k_number", "device_name", "applicant", "product_code", "decision_code", "decision_description", "clearance_type",
+      "advisory_committee", "advisory_committee_description", "review_advisory_committee", "statement_or_summary",
+      "third_party_flag", "expedited_review_flag", "country_code", "state", "city", "zip_code",
+      "openfda.device_name", "openfda.device_class", "openfda.regulation_number", "openfda.medical_specialty_description",
+    ],
+    dates: ["decision_date", "date_received"],
+    compactDates: false,
+  },
+  pma: {
+    text: [
+      "pma_number", "supplement_number", "supplement_type", "supplement_reason", "trade_name", "generic_name", "applicant",
+      "product_code", "decision_code", "advisory_committee", "advisory_committee_description", "expedited_review_flag",
+      "docket_number", "ao_statement", "openfda.device_name", "openfda.device_class", "openfda.regulation_number",
+    ],
+    dates: ["decision_date", "date_received", "fed_reg_notice_date"],
+    compactDates: false,
+  },
+  recall: {
+    text: [
+      "product_description", "recalling_firm", "reason_for_recall", "root_cause_description", "recall_status",
+      "product_quantity", "distribution_pattern", "code_info", "cfres_id", "product_code", "product_res_number",
+      "res_event_number", "firm_fei_number", "action", "openfda.k_number", "openfda.device_name", "openfda.device_class",
+      "openfda.regulation_number",
+    ],
+    dates: ["event_date_initiated", "event_date_posted", "event_date_terminated"],
+    compactDates: false,
+  },
+  enforcement: {
+    text: [
+      "recall_number", "classification", "status", "recalling_firm", "product_description", "product_quantity",
+      "reason_for_recall", "code_info", "distribution_pattern", "voluntary_mandated", "event_id", "city", "state", "country",
+    ],
+    dates: ["recall_initiation_date", "center_classification_date", "report_date", "termination_date"],
+    compactDates: true,
+  },
+  event: {
+    text: [
+      "report_number", "mdr_report_key", "event_type", "report_source_code", "event_location", "manufacturer_name",
+      "adverse_event_flag", "product_problem_flag", "product_problems", "remedial_action", "source_type", "type_of_report",
+      "device.brand_name", "device.generic_name", "device.manufacturer_d_name", "device.manufacturer_d_country",
+      "device.model_number", "device.catalog_number", "device.lot_number", "device.udi_di", "device.device_operator",
+      "device.implant_flag", "device.device_report_product_code", "device.openfda.device_class",
+      "device.openfda.regulation_number", "patient.sequence_number_outcome", "patient.patient_problems",
+      "mdr_text.text", "mdr_text.text_type_code",
+    ],
+    dates: ["date_of_event", "date_received", "date_report", "date_facility_aware", "date_manufacturer_received", "date_added", "date_changed"],
+    compactDates: true,
+  },
+  udi: {
+    text: [
+      "identifiers.id", "identifiers.type", "identifiers.issuing_agency", "brand_name", "version_or_model_number",
+      "catalog_number", "company_name", "device_description", "gmdn_terms.name", "product_codes.code", "product_codes.name",
+      "premarket_submissions.submission_number", "premarket_submissions.supplement_number", "sterilization.is_sterile",
+      "sterilization.is_sterilization_prior_use", "sterilization.sterilization_methods", "mri_safety", "is_rx", "is_otc",
+      "is_single_use", "is_kit", "is_combination_product", "has_serial_number", "commercial_distribution_status",
+    ],
+    dates: ["publish_date"],
+    compactDates: false,
+  },
+  registrationlisting: {
+    text: [
+      "registration.registration_number", "registration.fei_number", "registration.name", "registration.address_line_1",
+      "registration.city", "registration.state_code", "registration.iso_country_code", "registration.reg_expiry_date_year",
+      "registration.owner_operator.firm_name", "registration.owner_operator.owner_operator_number", "establishment_type",
+      "proprietary_name", "k_number", "pma_number", "products.product_code", "products.exempt",
+      "products.openfda.device_name", "products.openfda.device_class", "products.openfda.regulation_number",
+    ],
+    dates: ["products.created_date"],
+    compactDates: false,
+  },
+};
+
+type ExpressionNode =
+  | { kind: "clause"; field: string; value: string }
+  | { kind: "range"; field: string; lo: string; hi: string }
+  | { kind: "exists"; missing: boolean; field: string }
+  | { kind: "not"; node: ExpressionNode }
+  | { kind: "and" | "or"; nodes: ExpressionNode[] };
+
+type ExpressionToken =
+  | { kind: "(" | ")" | "AND" | "OR" | "NOT" }
+  | { kind: "clause"; field: string; value: string; phrase: boolean }
+  | { kind: "range"; field: string; lo: string; hi: string };
+
+class ExpressionError extends Error {}
+
+function tokenizeExpression(input: string): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i]!;
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === "(" || ch === ")") { tokens.push({ kind: ch }); i++; continue; }
+
+    const word = /^[A-Za-z_][\w.]*/.exec(input.slice(i))?.[0];
+    if (!word) throw new ExpressionError(`Unexpected "${ch}" at position ${i + 1}.`);
+    i += word.length;
+    if (input[i] !== ":") {
+      if (word === "AND" || word === "OR" || word === "NOT") { tokens.push({ kind: word }); continue; }
+      throw new ExpressionError(`"${word}" needs a field — write field:value (operators AND, OR, NOT are upper case).`);
+    }
+    i++;
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end < 0) throw new ExpressionError(`Unclosed quote after ${word}:.`);
+      tokens.push({ kind: "clause", field: word, value: input.slice(i + 1, end), phrase: true });
+      i = end + 1;
+    } else if (input[i] === "[") {
+      const end = input.indexOf("]", i);
+      if (end < 0) throw new ExpressionError(`Unclosed range after ${word}:.`);
+      const bounds = /^\s*(\S+)\s+TO\s+(\S+)\s*$/.exec(input.slice(i + 1, end));
+      if (!bounds) throw new ExpressionError(`Range for ${word} must look like [low TO high].`);
+      tokens.push({ kind: "range", field: word, lo: bounds[1]!, hi: bounds[2]! });
+      i = end + 1;
+    } else {
+      const value = /^[^\s()]+/.exec(input.slice(i))?.[0];
+      if (!value) throw new ExpressionError(`${word}: has no value.`);
+      tokens.push({ kind: "clause", field: word, value, phrase: false });
+      i += value.length;
+    }
+  }
+  return tokens;
+}
+
+// Adjacent clauses are ANDed, as users expect; the bulk-data index parses the
+// searches tools send with openFDA's own default, OR.
+function parseExpression(input: string, adjacent: "and" | "or" = "and"): ExpressionNode {
+  const tokens = tokenizeExpression(input);
+  let pos = 0;
+  const peek = () => tokens[pos]?.kind;
+  const startsClause = () => pos < tokens.length && peek() !== ")" && peek() !== "AND" && peek() !== "OR";
+
+  const parseOr = (): ExpressionNode => {
+    const nodes = [parseAnd()];
+    while (peek() === "OR" || (adjacent === "or" && startsClause())) {
+      if (peek() === "OR") pos++;
+      nodes.push(parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0]! : { kind: "or", nodes };
+  };
+  const parseAnd = (): ExpressionNode => {
+    const nodes = [parseNot()];
+    while (peek() === "AND" || (adjacent === "and" && startsClause())) {
+      if (peek() === "AND") pos++;
+      nodes.push(parseNot());
+    }
+    return nodes.length === 1 ? nodes[0]! : { kind: "and", nodes };
+  };
+  const parseNot = (): ExpressionNode => {
+    const token = tokens[pos++];
+    if (!token) throw new ExpressionError("Expression ends where a clause was expected.");
+    switch (token.kind) {
+      case "NOT":
+        return { kind: "not", node: parseNot() };
+      case "(": {
+        const node = parseOr();
+        if (tokens[pos++]?.kind !== ")") throw new ExpressionError("Missing closing parenthesis.");
+        return node;
+      }
+      case "range":
+        return { kind: "range", field: token.field, lo: token.lo, hi: token.hi };
+      case "clause":
+        if (token.field === "_exists_" || token.field === "_missing_") {
+          return { kind: "exists", missing: token.field === "_missing_", field: token.value };
+        }
+        return { kind: "clause", field: token.field, value: token.phrase ? `"${token.value}"` : token.value };
+      default:
+        throw new ExpressionError(`Unexpected ${token.kind} — a clause was expected.`);
+    }
+  };
+
+  if (tokens.length === 0) throw new ExpressionError("Expression is empty.");
+  const node = parseOr();
+  if (pos < tokens.length) throw new ExpressionError(`Unexpected ${tokens[pos]!.kind} — check parentheses.`);
+  return node;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row.push(Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+// Close spellings and same-named leaves (regulation_number → openfda.regulation_number),
+// then other endpoints that have the field
+function suggestFields(endpoint: string, field: string): string {
+  const spec = EXPRESSION_FIELDS[endpoint]!;
+  const known = [...spec.text, ...spec.dates];
+  const leaf = (f: string) => f.split(".").at(-1)!;
+  const close = known
+    .map((f) => ({ f, d: Math.min(editDistance(field, f), editDistance(leaf(field), leaf(f)) + (f.includes(".") ? 1 : 0)) }))
+    .filter(({ d }) => d <= Math.max(2, Math.floor(field.length / 4)))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, 3)
+    .map(({ f }) => f);
+  const elsewhere = Object.entries(EXPRESSION_FIELDS)
+    .filter(([ep, s]) => ep !== endpoint && [...s.text, ...s.dates].includes(field))
+    .map(([ep]) => ep);
+  const hints = [
+    close.length ? `Did you mean ${close.map((f) => `"${f}"`).join(" or ")}?` : null,
+    elsewhere.length ? `"${field}" exists on: ${elsewhere.join(", ")}.` : null,
+  ].filter(Boolean);
+  return `Unknown field "${field}" for ${endpoint}. ${hints.length ? hints.join(" ") : `Searchable fields: ${known.join(", ")}.`}`;
+}
+
+// Accepts YYYY-MM-DD or YYYYMMDD; `*` is an open end
+function nativeDate(endpoint: string, field: string, value: string, end: "lo" | "hi"): string {
+  const spec = EXPRESSION_FIELDS[endpoint]!;
+  let date = value;
+  if (value === "*") date = end === "lo" ? "1900-01-01" : new Date().toISOString().slice(0, 10);
+  else if (/^\d{8}$/.test(value)) date = `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6)}`;
+  if (validateDate(date)) throw new ExpressionError(`"${value}" is not a date for ${field}. Use YYYY-MM-DD.`);
+  return spec.compactDates ? stripDashes(date) : date;
+}
+
+function escapeExpressionValue(value: string): string {
+  return value.replace(/[&#+%]/g, (c) => encodeURIComponent(c));
+}
+
+// Validates fields and renders openFDA search syntax. OR groups use `(a+b)` like
+// the rest of the server.
+function compileExpression(endpoint: string, node: ExpressionNode): string {
+  const spec = EXPRESSION_FIELDS[endpoint]!;
+  const checkField = (field: string): { date: boolean } => {
+    const base = field.endsWith(".exact") ? field.slice(0, -6) : field;
+    if (spec.dates.includes(base) && base === field) return { date: true };
+    if (spec.text.includes(base)) return { date: false };
+    throw new ExpressionError(suggestFields(endpoint, base));
+  };
+
+  switch (node.kind) {
+    case "clause": {
+      const { date } = checkField(node.field);
+      if (date) {
+        if (node.value.includes("*")) throw new ExpressionError(`Wildcards don't work on date field ${node.field}; use a range.`);
+        const day = nativeDate(endpoint, node.field, node.value.replace(/"/g, ""), "lo");
+        return `${node.field}:[${day}+TO+${day}]`;
+      }
+      return `${node.field}:${escapeExpressionValue(node.value)}`;
+    }
+    case "range": {
+      const { date } = checkField(node.field);
+      if (date) return `${node.field}:[${nativeDate(endpoint, node.field, node.lo, "lo")}+TO+${nativeDate(endpoint, node.field, node.hi, "hi")}]`;
+      if (node.lo === "*" || node.hi === "*") throw new ExpressionError(`Open-ended ranges only work on date fields; ${node.field} is not one.`);
+      return `${node.field}:[${escapeExpressionValue(node.lo)}+TO+${escapeExpressionValue(node.hi)}]`;
+    }
+    case "exists":
+      checkField(node.field);
+      return `${node.missing ? "_missing_" : "_exists_"}:${node.field}`;
+    case "not":
+      return `NOT+${compileExpression(endpoint, node.node)}`;
+    case "and":
+      return `(${node.nodes.map((n) => compileExpression(endpoint, n)).join("+AND+")})`;
+    case "or":
+      return `(${node.nodes.map((n) => compileExpression(endpoint, n)).join("+")})`;
+  }
+}
+
+// ─── MCP Server ──────────────────────────────────────────────────────────────
+
+const server = new McpServer({
+  name: "fda-devices",
+  version: "1.0.0",
+});
+
+// ─── Tool 1: classify_device ─────────────────────────────────────────────────
+
+server.registerTool(
+  "classify_device",
+  {
+    description: `Look up FDA device classification by product code or device name. Returns product code, device class (I/II/III), regulation number, and regulatory details. FDA uses formal names like "Electrocardiograph, Ambulatory" not "wearable ECG patch" — try generic medical terms. If no results, try shorter/broader terms. Use this tool first to find the product code, then use other tools with that code. Panel codes: ${PANEL_LIST}.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("Exact 3-letter FDA product code (e.g., 'DXN')"),
+      query: z.string().optional().describe("Device name or description to search for"),
+      device_class: z.enum(["1", "2", "3"]).optional().describe("Filter by device class"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+    },
+    outputSchema: ClassifyOutputSchema,
+  },
+  trackCall(async ({ product_code, query, device_class, limit }) => {
+    if (!product_code && !query) {
+      return errorResult("Error: Provide either product_code or query.");
+    }
+
+    const resultLimit = limit ?? 10;
+
+    // Auto-detect product code passed as query (e.g., query="QIH" instead of product_code="QIH")
+    if (!product_code && query && PRODUCT_CODE_RE.test(query.trim())) {
+      product_code = query.trim().toUpperCase();
+      query = undefined;
+    }
+
+    // Auto-detect K, PMA or De Novo number passed as query — redirect with helpful message
+    if (!product_code && query) {
+      const trimmed = query.trim();
+      if (K_NUMBER_RE.test(trimmed)) {
+        return errorResult(`"${trimmed}" is a 510(k) number. Use \`search_510k\` with \`k_number: "${trimmed.toUpperCase()}"\` to look it up, or use \`classify_device\` with a device name query.`);
+      }
+      if (PMA_NUMBER_RE.test(trimmed)) {
+        return errorResult(`"${trimmed}" is a PMA number. Use \`search_pma\` with \`pma_number: "${trimmed.toUpperCase()}"\` to look it up, or use \`classify_device\` with a device name query.`);
+      }
+      if (DEN_NUMBER_RE.test(trimmed)) {
+        return errorResult(`"${trimmed}" is a De Novo number. Use \`search_de_novo\` with \`den_number: "${trimmed.toUpperCase()}"\` to look it up, or use \`classify_device\` with a device name query.`);
+      }
+    }
+
+    // Direct product code lookup
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+
+      const searchParts = [`product_code:${product_code.toUpperCase()}`];
+      if (device_class) searchParts.push(`device_class:${device_class}`);
+
+      const { data, url } = await queryOpenFDA("classification", searchParts, { limit: resultLimit });
+      if (data.error) return errorResult(formatError(data, url));
+      if (!data.results?.length) {
+        return structuredResult(
+          `No classification found for product code ${product_code.toUpperCase()}. Verify at: ${linkClassification(product_code.toUpperCase())}\n\n${formatFooter(url, data.meta)}`,
+          classificationOutput(data, url),
+        );
+      }
+
+      return classificationResult(data, url);
+    }
+
+    const found = await searchClassificationByQuery(query!, device_class, resultLimit);
+    if (found.kind === "classification") return classificationResult(found.data, found.url);
+    if (found.kind === "bridge") return structuredResult(found.bridge.text, found.bridge.output);
+    const originalTerms = found.originalTerms;
+    query = found.query;
+
+    // Nothing found anywhere — give actionable suggestions
+    const suggestions: string[] = [];
+    const lowerQuery = query!.toLowerCase();
+
+    // Detect if query is about AI/SaMD (common miss category)
+    const aiTerms = ["ai", "ml", "algorithm", "machine learning", "deep learning", "artificial intelligence", "samd", "software"];
+    const isAIQuery = originalTerms.some((t) => aiTerms.includes(t.toLowerCase()));
+
+    if (isAIQuery) {
+      suggestions.push(
+        `Many AI/ML-enabled devices are classified under generic product codes:`,
+        `  - **QIH** — Automated Radiological Image Processing Software`,
+        `  - **QDQ** — Radiological Computer Assisted Detection/Diagnosis Software`,
+        `  - **MYN** — Analyzer, Medical Image`,
+        `  - **QBS** — Radiological CAD Software For Fracture`,
+        `  - **QNP** — Gastrointestinal Lesion Software Detection System`,
+        `  - **QJU** — Image Acquisition/Optimization Guided By AI`,
+        ``,
+        `Try: \`classify_device\` with one of these product codes, or \`search_510k\` with applicant/device_name to find specific cleared products.`,
+      );
+    } else {
+      suggestions.push(
+        `Suggestions:`,
+        `  - Try shorter or broader medical terms (FDA uses formal names like "Oximeter, Pulse" not "pulse oximeter")`,
+        `  - Use \`search_510k\` with \`device_name\` or \`applicant\` to find specific cleared devices`,
+        `  - If you know the company, search by applicant name in \`search_510k\``,
+      );
+    }
+
+    const fallbackUrl = `${BASE_URL}/classification.json?search=${buildSearchTerms("device_name", query!)}&limit=1`;
+    return structuredResult(
+      `No classification results found for "${query}".\n\n${suggestions.join("\n")}\n\n${formatFooter(fallbackUrl)}`,
+      { total: 0, records: [], source: sourceInfo(fallbackUrl) } satisfies ClassifyOutput,
+    );
+  })
+);
+
+// Filler words that add noise to FDA classification searches
+const FILLER_WORDS = new Set([
+  "a", "an", "the", "for", "of", "in", "on", "to", "and", "or", "is", "it",
+  "what", "how", "which", "my", "with", "from", "that", "this", "are", "can",
+  "fda", "class", "device", "medical", "need", "does", "use", "used",
+  "health", "care", "system", "product", "new", "based", "using",
+]);
+
+// Multi-pass classification search for a free-text query, shared by
+// classify_device and regulatory_pathway. `failed` keeps the queries that
+// errored (not NOT_FOUND), so an outage isn't mistaken for no match.
+interface FailedQuery {
+  data: OpenFDAResponse;
+  url: string;
+}
+
+type ClassificationSearch =
+  | { kind: "classification"; data: OpenFDAResponse; url: string }
+  | { kind: "bridge"; bridge: { text: string; output: ClassifyOutput } }
+  | { kind: "none"; query: string; originalTerms: string[]; failed: FailedQuery[] };
+
+// Error text for a search that found nothing while some of its queries failed
+function classificationSearchError(found: ClassificationSearch): string | null {
+  if (found.kind !== "none" || found.failed.length === 0) return null;
+  const { data, url } = found.failed[0]!;
+  return `Error: the classification search for "${found.query}" is incomplete — ${found.failed.length} of its queries failed (${data.error?.message ?? "unknown error"}), so "no match" can't be trusted.\n\n${formatFooter(url, data.meta)}`;
+}
+
+async function searchClassificationByQuery(
+  rawQuery: string,
+  device_class: string | undefined,
+  resultLimit: number,
+): Promise<ClassificationSearch> {
+  // Strip special characters that break openFDA search (periods, slashes, etc.)
+  const query = rawQuery.replace(/[.\/\\@#$%^&*(){}[\]|<>~`]/g, " ").replace(/\s+/g, " ").trim();
+
+  // Multi-pass query search with synonym expansion and combinatorial broadening
+  const originalTerms = query.trim().split(/\s+/);
+  const expandedTerms = expandSynonyms(originalTerms);
+  const hasExpansion = expandedTerms.join(" ") !== originalTerms.join(" ");
+
+  // Build candidate term lists: expanded first (if different), then original
+  const termSets: { terms: string[]; label: string }[] = [];
+  if (hasExpansion) termSets.push({ terms: expandedTerms, label: "expanded" });
+  termSets.push({ terms: originalTerms, label: "original" });
+
+  // Track best weak result in case no strong match is found
+  let bestWeak: { data: OpenFDAResponse; url: string; score: number } | null = null;
+  const failed: FailedQuery[] = [];
+  const RELEVANCE_THRESHOLD = 0.4; // at least 40% of original terms should be covered (directly or via synonyms)
+
+  const MAX_API_CALLS = 30; // Cap total API calls to avoid rate limits
+  let apiCalls = 0;
+
+  for (const { terms } of termSets) {
+    // Filter out filler words for combo generation
+    const meaningful = terms.filter((t) => !FILLER_WORDS.has(t.toLowerCase()) && t.length > 1);
+    const termsToUse = meaningful.length >= 2 ? meaningful : terms;
+
+    // Prioritize: full length first, then 2-3 term combos (sweet spot for FDA names),
+    // then longer combos. This ensures we reach specific medical pairs quickly.
+    const allCombos = generateCombinations(termsToUse);
+    const fullLength = allCombos.filter((c) => c.length === termsToUse.length);
+    const shortCombos = allCombos.filter((c) => c.length >= 2 && c.length <= 3 && c.length < termsToUse.length);
+    const mediumCombos = allCombos.filter((c) => c.length > 3 && c.length < termsToUse.length);
+    // Only allow single-term searches for non-filler words
+    const singles = allCombos.filter((c) => c.length === 1 && !FILLER_WORDS.has(c[0].toLowerCase()));
+    const combos = [...fullLength, ...shortCombos, ...mediumCombos, ...singles];
+
+    for (const combo of combos) {
+      if (apiCalls >= MAX_API_CALLS) break;
+
+      // For each combination, try both device_name and definition
+      const fields = ["device_name", "definition"] as const;
+
+      for (const field of fields) {
+        if (apiCalls >= MAX_API_CALLS) break;
+        apiCalls++;
+
+        const searchParts = [buildSearchTerms(field, combo.join(" "))];
+        if (device_class) searchParts.push(`device_class:${device_class}`);
+
+        const { data, url } = await queryOpenFDA("classification", searchParts, { limit: resultLimit });
+        if (data.error && data.error.code !== "NOT_FOUND") failed.push({ data, url });
+
+        if (!data.error && data.results && data.results.length > 0) {
+          const score = scoreResults(data.results, originalTerms);
+
+          // Full-length combo or strong relevance: return immediately
+          if (combo.length >= termsToUse.length || score >= RELEVANCE_THRESHOLD) {
+            return { kind: "classification", data, url };
+          }
+
+          // Weak match: save if it's the best so far
+          if (!bestWeak || score > bestWeak.score) {
+            bestWeak = { data, url, score };
+          }
+        }
+      }
+    }
+  }
+
+  // If weak match has decent relevance, return it. Otherwise try the bridge first —
+  // the bridge may find better results via 510(k) device names.
+  const WEAK_RETURN_THRESHOLD = 0.3; // below this, prefer bridge over weak classification match
+  if (bestWeak && bestWeak.score >= WEAK_RETURN_THRESHOLD) {
+    return { kind: "classification", data: bestWeak.data, url: bestWeak.url };
+  }
+
+  // Pass 3: 510(k) bridge — search 510(k) device names, extract product codes, look up classifications
+  // Many AI/SaMD devices are classified under generic codes (e.g., MYN "Analyzer, Medical Image")
+  // but have specific names in 510(k) submissions. This bridges the gap.
+  const bridge = await bridgeVia510k(query, originalTerms, expandedTerms, device_class, resultLimit, failed);
+  if (bridge) return { kind: "bridge", bridge };
+
+  // Fall back to weak classification match if bridge also failed
+  if (bestWeak) return { kind: "classification", data: bestWeak.data, url: bestWeak.url };
+  return { kind: "none", query, originalTerms, failed };
+}
+
+// 510(k) bridge: when classification search fails, search 510(k) device names
+// to discover product codes, then look up those codes in classification.
+// Queries that error are added to `failed`.
+async function bridgeVia510k(
+  query: string,
+  originalTerms: string[],
+  expandedTerms: string[],
+  device_class: string | undefined,
+  resultLimit: number,
+  failed: FailedQuery[],
+): Promise<{ text: string; output: ClassifyOutput } | null> {
+  // Try both expanded and original terms against 510(k) device_name
+  const termSets = [expandedTerms, originalTerms];
+  const seen510k = new Set<string>();
+
+  // Generic terms that are too broad to search alone in 510(k) device names
+  const GENERIC_510K_TERMS = new Set([
+    "artificial", "intelligence", "machine", "learning", "software", "device",
+    "system", "detection", "screening", "diagnosis", "diagnostic", "analysis",
+    "monitor", "automated", "computer", "digital", "algorithm", "image",
+    "processing", "aided", "based", "clinical", "decision", "support",
+  ]);
+
+  for (const terms of termSets) {
+    // Separate medical-specific terms from generic ones for smarter combo generation
+    const medicalTerms = terms.filter((t) => !GENERIC_510K_TERMS.has(t.toLowerCase()));
+    const combos = generateCombinations(terms);
+    // Try combos from longest down to pairs; only allow single-term searches for
+    // specific enough medical terms (>= 5 chars to avoid "low", "GI", etc.)
+    const pairAndUp = combos.filter((c) => c.length >= 2).slice(0, 8);
+    const medicalSingles = medicalTerms.filter((t) => t.length >= 5).map((t) => [t]);
+    const topCombos = [...pairAndUp, ...medicalSingles];
+
+    for (const combo of topCombos) {
+      const searchExpr = buildSearchTerms("device_name", combo.join(" "));
+      const key = combo.join("+");
+      if (seen510k.has(key)) continue;
+      seen510k.add(key);
+
+      const { data, url } = await queryOpenFDA("510k", [searchExpr], { limit: 20, sort: "decision_date:desc" });
+      if (data.error && data.error.code !== "NOT_FOUND") failed.push({ data, url });
+
+      if (!data.error && data.results && data.results.length > 0) {
+        // Extract unique product codes from 510(k) results
+        const productCodes = new Map<string, { code: string; deviceNames: string[]; count: number }>();
+        for (const r of data.results) {
+          const pc = r.product_code?.toUpperCase();
+          if (!pc || !PRODUCT_CODE_RE.test(pc)) continue;
+          const existing = productCodes.get(pc);
+          if (existing) {
+            existing.count++;
+            const name = r.device_name;
+            if (name && !existing.deviceNames.includes(name)) existing.deviceNames.push(name);
+          } else {
+            productCodes.set(pc, { code: pc, deviceNames: r.device_name ? [r.device_name] : [], count: 1 });
+          }
+        }
+
+        if (productCodes.size === 0) continue;
+
+        // Look up each unique product code in classification
+        const classificationResults: ClassificationApiRecord[] = [];
+        const classUrls: string[] = [];
+        for (const [pc] of productCodes) {
+          const searchParts = [`product_code:${pc}`];
+          if (device_class) searchParts.push(`device_class:${device_class}`);
+          const { data: classData, url: classUrl } = await queryOpenFDA("classification", searchParts, { limit: 1 });
+          if (classData.error && classData.error.code !== "NOT_FOUND") failed.push({ data: classData, url: classUrl });
+          if (!classData.error && classData.results?.length) {
+            classificationResults.push(...classData.results);
+            classUrls.push(classUrl);
+          }
+        }
+
+        if (classificationResults.length === 0) continue;
+
+        // Build response showing classification + the 510(k) devices that led to it
+        const lines: string[] = [
+          `No direct classification match for "${query}". Found ${classificationResults.length} classification(s) via 510(k) device name search:\n`,
+        ];
+
+        for (const r of classificationResults) {
+          const pc = r.product_code;
+          const regNum = r.regulation_number;
+          const pcInfo = pc ? productCodes.get(pc) : undefined;
+          lines.push(`**${pc}** — ${r.device_name ?? "N/A"}`);
+          lines.push(`  Class: ${r.device_class ?? "N/A"} | Regulation: ${regNum ?? "N/A"}`);
+          lines.push(`  Panel: ${r.medical_specialty ?? "N/A"} (${r.medical_specialty_description ?? "N/A"})`);
+          if (r.definition) lines.push(`  Definition: ${r.definition.slice(0, 200)}${r.definition.length > 200 ? "..." : ""}`);
+          lines.push(`  Implant: ${r.implant_flag ?? "N/A"} | Life-sustaining: ${r.life_sustain_support_flag ?? "N/A"} | GMP exempt: ${r.gmp_exempt_flag ?? "N/A"}`);
+          lines.push(`  Third-party eligible: ${r.third_party_flag ?? "N/A"} | Submission type: ${r.submission_type_id ?? "N/A"}`);
+          lines.push(`  FDA source: ${pc ? linkClassification(pc) : "N/A"}`);
+          if (regNum) lines.push(`  eCFR: ${linkECFR(regNum)}`);
+          if (pcInfo) {
+            lines.push(`  _Found via 510(k) devices: ${pcInfo.deviceNames.slice(0, 3).join("; ")}${pcInfo.deviceNames.length > 3 ? ` (+${pcInfo.deviceNames.length - 3} more)` : ""}_`);
+          }
+          lines.push("");
+        }
+
+        // Show a few example 510(k)s that matched
+        const exampleDevices = data.results.slice(0, 5);
+        lines.push(`**510(k) matches for "${query}"** (${data.meta?.results?.total ?? data.results.length} total):\n`);
+        for (const r of exampleDevices) {
+          const kn = r.k_number;
+          const decisionDate = normalizeDateResponse(r.decision_date);
+          lines.push(`- **${kn}** ${r.device_name ?? "N/A"} — ${r.applicant ?? "N/A"} (${decisionDate ?? "N/A"}) [${r.product_code ?? "N/A"}]`);
+        }
+        lines.push("");
+
+        // The classification most of the 510(k) matches fall under
+        const countFor = (r: ClassificationApiRecord) => productCodes.get(r.product_code ?? "")?.count ?? 0;
+        const top = [...classificationResults].sort((a, b) => countFor(b) - countFor(a))[0]!;
+        const candidate = synonymCandidate(originalTerms, combo, top);
+        if (candidate) {
+          const synonymsJson = JSON.stringify(candidate.synonyms);
+          lines.push(`**Synonym candidate:** "${candidate.term}" → ${synonymsJson} (${candidate.product_code}). Saving it lets classify_device find this classification without the 510(k) bridge — \`manage_synonyms\` with action "add", term "${candidate.term}", synonyms ${synonymsJson}.`, "");
+        }
+
+        const bridgeUrl = `${BASE_URL}/510k.json?search=${searchExpr}&limit=20&sort=decision_date:desc`;
+        lines.push(formatFooter(bridgeUrl, data.meta));
+        return {
+          text: lines.join("\n"),
+          output: {
+            total: classificationResults.length,
+            records: classificationResults.map((r) => ({
+              ...toClassificationRecord(r),
+              found_via_510k: productCodes.get(r.product_code ?? "")?.deviceNames ?? [],
+            })),
+            bridge_510k_matches: data.results.map(toPremarketNotification),
+            synonym_candidate: candidate ?? undefined,
+            source: sourceInfo(bridgeUrl, data.meta),
+          },
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+// The stretch of the user's query the bridge matched on, mapped to the classification
+// name it found, unless the synonym map already says so. Keys match contiguous
+// words, so the span keeps any filler words inside it.
+function synonymCandidate(originalTerms: string[], combo: string[], classification: ClassificationApiRecord): z.infer<typeof SynonymCandidateSchema> | null {
+  const meaningful = originalTerms.map((t, i) => (!FILLER_WORDS.has(t.toLowerCase()) && t.length > 1 ? i : -1)).filter((i) => i >= 0);
+  const matched = new Set(combo.map((t) => t.toLowerCase()));
+  const inCombo = meaningful.filter((i) => matched.has(originalTerms[i]!.toLowerCase()));
+  const span = inCombo.length ? inCombo : meaningful;
+  if (span.length === 0) return null;
+  const term = normalizeSynonymKey(originalTerms.slice(span[0], span.at(-1)! + 1).join(" "));
+  const name = normalizeSynonymKey(classification.device_name ?? "");
+  if (!term || !name || term === name || !classification.product_code) return null;
+  if (loadSynonyms().merged.get(term)?.includes(name)) return null;
+  return { term, synonyms: [name], product_code: classification.product_code };
+}
+
+function formatClassificationResults(data: OpenFDAResponse<ClassificationApiRecord>, url: string): string {
+  const total = data.meta?.results?.total ?? 0;
+  const results = data.results ?? [];
+  const lines: string[] = [`Found ${total} classification result(s).\n`];
+
+  for (const r of results) {
+    const pc = r.product_code;
+    const regNum = r.regulation_number;
+    lines.push(`**${pc}** — ${r.device_name ?? "N/A"}`);
+    lines.push(`  Class: ${r.device_class ?? "N/A"} | Regulation: ${regNum ?? "N/A"}`);
+    lines.push(`  Panel: ${r.medical_specialty ?? "N/A"} (${r.medical_specialty_description ?? "N/A"})`);
+    if (r.definition) lines.push(`  Definition: ${r.definition.slice(0, 200)}${r.definition.length > 200 ? "..." : ""}`);
+    lines.push(`  Implant: ${r.implant_flag ?? "N/A"} | Life-sustaining: ${r.life_sustain_support_flag ?? "N/A"} | GMP exempt: ${r.gmp_exempt_flag ?? "N/A"}`);
+    lines.push(`  Third-party eligible: ${r.third_party_flag ?? "N/A"} | Submission type: ${r.submission_type_id ?? "N/A"}`);
+    lines.push(`  FDA source: ${pc ? linkClassification(pc) : "N/A"}`);
+    if (regNum) lines.push(`  eCFR: ${linkECFR(regNum)}`);
+    lines.push("");
+  }
+
+  lines.push(formatFooter(url, data.meta));
+  return lines.join("\n");
+}
+
+function classificationOutput(data: OpenFDAResponse, url: string): ClassifyOutput {
+  return {
+    total: data.meta?.results?.total ?? 0,
+    records: (data.results ?? []).map(toClassificationRecord),
+    source: sourceInfo(url, data.meta),
+  };
+}
+
+function classificationResult(data: OpenFDAResponse, url: string) {
+  return structuredResult(formatClassificationResults(data, url), classificationOutput(data, url));
+}
+
+// ─── Tool 2: search_510k ────────────────────────────────────────────────────
+
+server.registerTool(
+  "search_510k",
+  {
+    description: `Search FDA 510(k) clearance database. Best used with a product_code from classify_device, or a specific k_number for direct lookup. Company names vary in FDA data ("Medtronic" vs "Medtronic, Inc." vs "MEDTRONIC INC"), so the applicant filter is expanded to every spelling variant found (plus subsidiaries from the alias file) and the response lists the variants searched. Returns clearance details with FDA source links. Panel codes: ${PANEL_LIST}.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      k_number: z.string().optional().describe("Specific 510(k) or De Novo number (e.g., 'K032161', 'DEN200013')"),
+      applicant: z.string().optional().describe("Company name (partial match, expanded to spelling variants)"),
+      device_name: z.string().optional().describe("Device name search"),
+      decision: z.enum(["SESE", "SEKN", "SESD", "DENG"]).optional().describe("Decision code: SESE=substantially equivalent, SEKN=not SE, SESD=SE with limitations, DENG=De Novo granted"),
+      clearance_type: z.enum(["Traditional", "Special", "Abbreviated"]).optional().describe("Clearance type"),
+      advisory_committee: z.string().optional().describe("Panel code (e.g., 'CV', 'SU', 'OR')"),
+      date_from: z.string().optional().describe("Decision date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Decision date end (YYYY-MM-DD)"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination (max 25,000 — use cursor to go further)"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: Search510kOutputSchema,
+  },
+  trackCall(async ({ product_code, k_number, applicant, device_name, decision, clearance_type, advisory_committee, date_from, date_to, limit, skip, cursor }) => {
+    if (!product_code && !k_number && !applicant && !device_name) {
+      return errorResult("Error: Provide at least one of product_code, k_number, applicant, or device_name.");
+    }
+
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (k_number && !K_NUMBER_RE.test(k_number) && !DEN_NUMBER_RE.test(k_number)) {
+      return errorResult(`Validation error: "${k_number}" is not a valid 510(k) number. Format: K followed by 6-7 digits (e.g., K032161), or DEN followed by 6 digits for a De Novo.`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    const filters: string[] = [];
+    const searchParts: string[] = [];
+    const sort = k_number ? undefined : "decision_date:desc";
+    let company: CompanyResolution | null = null;
+
+    if (k_number) {
+      searchParts.push(`k_number:${k_number.toUpperCase()}`);
+    } else {
+      company = applicant ? await resolveCompany("510k", applicant) : null;
+      filters.push(...searchFilters("510k", { product_code, applicant, device_name, decision, clearance_type, advisory_committee }, { applicant: company?.part }));
+      searchParts.push(...filters);
+      if (date_from || date_to || page.before) searchParts.push(dateRangePart("510k", date_from, page.before ?? date_to));
+    }
+
+    const { data, url } = await queryOpenFDA("510k", searchParts, {
+      limit: limit ?? 10,
+      skip: page.skip,
+      sort,
+    });
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+
+    if (data.error) return errorResult(formatError(data, url));
+    if (!data.results?.length) {
+      return structuredResult(`No 510(k) records found.${companyLine}\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data, company));
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("510k", filters, date_from, page, data, sort);
+    const lines: string[] = [`Found ${total} 510(k) clearance(s).${companyLine}${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+
+    for (const r of data.results) {
+      const kn = r.k_number;
+      const decisionDate = normalizeDateResponse(r.decision_date);
+      const receivedDate = normalizeDateResponse(r.date_received);
+      const days = decisionDate && receivedDate ? daysBetween(receivedDate, decisionDate) : null;
+
+      lines.push(`**${kn}** — ${r.device_name ?? "N/A"}`);
+      lines.push(`  Applicant: ${r.applicant ?? "N/A"}`);
+      lines.push(`  Decision: ${r.decision_description ?? r.decision_code ?? "N/A"} | Type: ${r.clearance_type ?? "N/A"}`);
+      lines.push(`  Decision date: ${decisionDate ?? "N/A"} | Received: ${receivedDate ?? "N/A"}${days !== null ? ` | Days to decision: ${days}` : ""}`);
+      lines.push(`  Product code: ${r.product_code ?? "N/A"} | Panel: ${r.advisory_committee_description ?? r.advisory_committee ?? "N/A"}`);
+      lines.push(`  Submission type: ${r.statement_or_summary ?? "N/A"}`);
+      lines.push(`  FDA source: ${kn ? link510kRecord(kn) : "N/A"}`);
+      lines.push("");
+    }
+
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof Search510kOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records: data.results.map(toPremarketNotification),
+      source: sourceInfo(url, data.meta),
+      company: companySearchOutput(company),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 3: search_pma ─────────────────────────────────────────────────────
+
+const PMA_HISTORY_MAX_RECORDS = 5000;
+const PMA_HISTORY_LISTED_PER_TYPE = 20;
+
+type PMAHistory = z.infer<typeof PMAHistorySchema>;
+
+function tally(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return counts;
+}
+
+// The original approval is fetched on its own — the earliest decision for the
+// number — so a long supplement list can't push it out of the result.
+// `history` is null when a query failed; `data` then carries the error.
+async function fetchPMAHistory(pmaNumber: string): Promise<{ history: PMAHistory | null; data: OpenFDAResponse; url: string }> {
+  const parts = [`pma_number:${pmaNumber}`];
+  const earliest = await queryOpenFDA("pma", parts, { limit: 1, sort: "decision_date:asc" });
+  if (earliest.data.error) return { ...earliest, history: null };
+  const first = earliest.data.results?.[0];
+  const original = first && !asString(first.supplement_number) ? toPMARecord(first) : null;
+
+  const all = await fetchAllPages("pma", parts, "decision_date:desc", PMA_HISTORY_MAX_RECORDS);
+  if (all.data.error) return { ...all, history: null };
+  const supplements = all.records
+    .filter((r) => asString(r.supplement_number))
+    .map(toPMARecord)
+    .sort((a, b) => (a.decision_date ?? "").localeCompare(b.decision_date ?? ""));
+
+  const year = (r: z.infer<typeof PMARecordSchema>) => r.decision_date?.slice(0, 4) ?? "unknown";
+  const byType = new Map<string, z.infer<typeof PMARecordSchema>[]>();
+  for (const s of supplements) {
+    const type = s.supplement_type ?? "Unspecified";
+    byType.set(type, [...(byType.get(type) ?? []), s]);
+  }
+
+  const history: PMAHistory = {
+    pma_number: pmaNumber,
+    original,
+    original_url: earliest.url,
+    supplement_count: supplements.length,
+    by_year: Object.fromEntries(tally(supplements.map(year))),
+    by_type: [...byType.entries()]
+      .sort((a, b) => b[1].length - a[1].length)
+      .map(([type, records]) => ({
+        supplement_type: type,
+        count: records.length,
+        by_year: Object.fromEntries(tally(records.map(year))),
+        reasons: [...tally(records.map((r) => r.supplement_reason ?? "Not stated"))]
+          .sort((a, b) => b[1] - a[1])
+          .map(([reason, count]) => ({ reason, count })),
+        supplements: records.slice(-PMA_HISTORY_LISTED_PER_TYPE),
+      })),
+    records_fetched: all.records.length,
+    truncated: all.truncated,
+  };
+  return { history, data: all.data, url: all.url };
+}
+
+function formatYearCounts(byYear: Record<string, number>): string {
+  return Object.entries(byYear).sort(([a], [b]) => a.localeCompare(b)).map(([y, n]) => `${y}: ${n}`).join(", ");
+}
+
+function formatPMAHistory(history: PMAHistory, url: string, meta: OpenFDAResponse["meta"]): string {
+  const o = history.original;
+  const lines: string[] = [`## PMA ${history.pma_number} history${o ? ` — ${o.trade_name ?? o.generic_name ?? "N/A"}` : ""}`, ""];
+
+  if (o) {
+    lines.push("**Original approval**");
+    lines.push(`  ${o.trade_name ?? "N/A"} (${o.generic_name ?? "N/A"})`);
+    lines.push(`  Applicant: ${o.applicant ?? "N/A"} | Decision: ${o.decision_code ?? "N/A"} ${o.decision_date ?? "N/A"}`);
+    lines.push(`  Product code: ${o.product_code ?? "N/A"} | Panel: ${o.advisory_committee_description ?? o.advisory_committee ?? "N/A"}`);
+    lines.push(`  FDA source: ${o.source_url ?? linkPMA(history.pma_number)}`);
+  } else {
+    lines.push(`**Original approval:** not in openFDA data (the earliest record is a supplement). FDA source: ${linkPMA(history.pma_number)}`);
+  }
+  lines.push("");
+
+  lines.push(`**Supplements: ${history.supplement_count}**${history.supplement_count ? ` — by year: ${formatYearCounts(history.by_year)}` : ""}`);
+  if (history.truncated) {
+    lines.push(`_Only the latest ${history.records_fetched.toLocaleString()} records were fetched; earlier supplements are not counted._`);
+  }
+  for (const group of history.by_type) {
+    lines.push("", `### ${group.supplement_type} — ${group.count}`);
+    lines.push(`By year: ${formatYearCounts(group.by_year)}`);
+    lines.push(`Reasons: ${group.reasons.map((r) => `${r.reason} (${r.count})`).join("; ")}`);
+    const hidden = group.count - group.supplements.length;
+    if (hidden > 0) lines.push(`_${hidden} earlier ${group.supplement_type} supplement(s) not listed_`);
+    for (const s of group.supplements) {
+      lines.push(`- ${s.supplement_number} ${s.decision_date ?? "N/A"} — ${s.supplement_reason ?? "reason not stated"} (${s.decision_code ?? "N/A"})`);
+    }
+  }
+
+  lines.push("", formatFooter(url, meta));
+  return lines.join("\n");
+}
+
+server.registerTool(
+  "search_pma",
+  {
+    description: `Search FDA PMA (Premarket Approval) database for Class III medical devices. Best used with a product_code or specific pma_number. With pma_number and history: true, returns the whole history of that PMA — the original approval first, then every supplement grouped by supplement type with counts per type and year and the supplement reasons. Returns approval details with FDA source links. Panel codes: ${PANEL_LIST}.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      pma_number: z.string().optional().describe("Specific PMA number (e.g., 'P170019')"),
+      history: z.boolean().optional().describe("With pma_number: group every record for that PMA — original approval, then supplements by type"),
+      applicant: z.string().optional().describe("Company name (partial match, expanded to spelling variants)"),
+      trade_name: z.string().optional().describe("Commercial product name"),
+      advisory_committee: z.string().optional().describe("Panel code"),
+      date_from: z.string().optional().describe("Decision date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Decision date end (YYYY-MM-DD)"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination (max 25,000 — use cursor to go further)"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchPMAOutputSchema,
+  },
+  trackCall(async ({ product_code, pma_number, history, applicant, trade_name, advisory_committee, date_from, date_to, limit, skip, cursor }) => {
+    if (!product_code && !pma_number && !applicant && !trade_name) {
+      return errorResult("Error: Provide at least one of product_code, pma_number, applicant, or trade_name.");
+    }
+
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (pma_number && !PMA_NUMBER_RE.test(pma_number)) {
+      return errorResult(`Validation error: "${pma_number}" is not a valid PMA number. Format: P followed by 6 digits (e.g., P170019).`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    if (history) {
+      if (!pma_number) return errorResult("Error: history mode needs a pma_number.");
+      // History is every record for the PMA — filters and paging would silently not apply
+      const ignored = Object.entries({ product_code, applicant, trade_name, advisory_committee, date_from, date_to, limit, skip, cursor })
+        .filter(([, value]) => value !== undefined)
+        .map(([name]) => name);
+      if (ignored.length > 0) {
+        return errorResult(`Error: history: true returns the complete history of ${pma_number.toUpperCase()} and can't be combined with ${ignored.join(", ")}. Drop ${ignored.length === 1 ? "it" : "them"}, or search without history to filter.`);
+      }
+      const found = await fetchPMAHistory(pma_number.toUpperCase());
+      if (!found.history) return errorResult(formatError(found.data, found.url));
+      const output: z.infer<typeof SearchPMAOutputSchema> = {
+        total: found.data.meta?.results?.total ?? found.history.records_fetched,
+        skip: 0,
+        next_cursor: null,
+        records: found.history.original ? [found.history.original] : [],
+        source: sourceInfo(found.url, found.data.meta),
+        history: found.history,
+      };
+      return structuredResult(formatPMAHistory(found.history, found.url, found.data.meta), output);
+    }
+
+    const filters: string[] = [];
+    const searchParts: string[] = [];
+    const sort = pma_number ? undefined : "decision_date:desc";
+    let company: CompanyResolution | null = null;
+
+    if (pma_number) {
+      searchParts.push(`pma_number:${pma_number.toUpperCase()}`);
+    } else {
+      company = applicant ? await resolveCompany("pma", applicant) : null;
+      filters.push(...searchFilters("pma", { product_code, applicant, trade_name, advisory_committee }, { applicant: company?.part }));
+      searchParts.push(...filters);
+      if (date_from || date_to || page.before) searchParts.push(dateRangePart("pma", date_from, page.before ?? date_to));
+    }
+
+    const { data, url } = await queryOpenFDA("pma", searchParts, {
+      limit: limit ?? 10,
+      skip: page.skip,
+      sort,
+    });
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+
+    if (data.error) return errorResult(formatError(data, url));
+    if (!data.results?.length) {
+      return structuredResult(`No PMA records found.${companyLine}\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data, company));
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("pma", filters, date_from, page, data, sort);
+    const lines: string[] = [`Found ${total} PMA record(s).${companyLine}${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+
+    for (const r of data.results) {
+      const pn = r.pma_number;
+      const supplement = r.supplement_number;
+      const displayNumber = supplement ? `${pn}/${supplement}` : pn;
+      const decisionDate = normalizeDateResponse(r.decision_date);
+
+      lines.push(`**${displayNumber}** — ${r.trade_name ?? r.generic_name ?? "N/A"}`);
+      lines.push(`  Generic name: ${r.generic_name ?? "N/A"}`);
+      lines.push(`  Applicant: ${r.applicant ?? "N/A"}`);
+      lines.push(`  Decision: ${r.decision_code ?? "N/A"} | Date: ${decisionDate ?? "N/A"}`);
+      lines.push(`  Product code: ${r.product_code ?? "N/A"} | Panel: ${r.advisory_committee_description ?? r.advisory_committee ?? "N/A"}`);
+      if (r.supplement_type) lines.push(`  Supplement type: ${r.supplement_type} | Reason: ${r.supplement_reason ?? "N/A"}`);
+      lines.push(`  FDA source: ${pn ? linkPMA(pn) : "N/A"}`);
+      lines.push("");
+    }
+
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof SearchPMAOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records: data.results.map(toPMARecord),
+      source: sourceInfo(url, data.meta),
+      company: companySearchOutput(company),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// Recall severity lives only in enforcement reports. A recall's product_res_number
+// is the enforcement recall_number; when that misses, fall back to the same firm
+// initiating a recall on the same date. The enforcement `openfda` block is often
+// empty, so product codes can't be used to join.
+async function joinRecallSeverity(
+  recalls: RecallApiRecord[],
+): Promise<{ severities: RecallSeverity[]; url: string | null; meta?: OpenFDAResponse["meta"] }> {
+  const numbers = [...new Set(recalls.map((r) => asString(r.product_res_number)).filter((n): n is string => n !== null))];
+  const byNumber = new Map<string, string>();
+  let url: string | null = null;
+  let meta: OpenFDAResponse["meta"];
+
+  if (numbers.length > 0) {
+    const anyNumber = `(${numbers.map((n) => `recall_number:"${n}"`).join("+")})`;
+    const result = await queryOpenFDA("enforcement", [anyNumber], { limit: numbers.length });
+    url = result.url;
+    meta = result.data.meta;
+    // A failed lookup isn't evidence of a missing report — don't fall back on it either
+    if (result.data.error && result.data.error.code !== "NOT_FOUND") {
+      return { severities: recalls.map(() => ({ classification: null, match: "error", enforcement_recall_number: null })), url, meta };
+    }
+    for (const e of result.data.results ?? []) {
+      const recallNumber = asString(e.recall_number);
+      const classification = asString(e.classification);
+      if (recallNumber && classification) byNumber.set(recallNumber.toUpperCase(), classification);
+    }
+  }
+
+  const severities = recalls.map((r): RecallSeverity | null => {
+    const recallNumber = asString(r.product_res_number);
+    const classification = recallNumber ? byNumber.get(recallNumber.toUpperCase()) : undefined;
+    return classification ? { classification, match: "recall_number", enforcement_recall_number: recallNumber } : null;
+  });
+  const pending = recalls.filter((_, i) => severities[i] === null);
+  const fallback = await matchSeverityByFirmAndDate(pending, byNumber);
+  return { severities: severities.map((s) => s ?? fallback.shift()!), url, meta };
+}
+
+// Firms looked up by the firm + date fallback per page; recalls of further firms are skipped
+const SEVERITY_FALLBACK_FIRMS = 10;
+
+// One enforcement query per firm, spanning its recalls' initiation dates. Reports
+// already claimed by a recall-number match are excluded from the candidates.
+async function matchSeverityByFirmAndDate(recalls: RecallApiRecord[], claimed: Map<string, string>): Promise<RecallSeverity[]> {
+  const unmatched: RecallSeverity = { classification: null, match: "unmatched", enforcement_recall_number: null };
+  const severities: RecallSeverity[] = recalls.map(() => unmatched);
+  const byFirm = new Map<string, { index: number; initiated: string }[]>();
+  recalls.forEach((recall, index) => {
+    const firm = asString(recall.recalling_firm)?.replace(/"/g, "");
+    const initiated = normalizeDateResponse(recall.event_date_initiated);
+    if (!firm || !initiated || !DATE_RE.test(initiated)) return;
+    byFirm.set(firm, [...(byFirm.get(firm) ?? []), { index, initiated }]);
+  });
+
+  let queried = 0;
+  for (const [firm, items] of byFirm) {
+    if (queried++ >= SEVERITY_FALLBACK_FIRMS) {
+      for (const { index } of items) severities[index] = { ...unmatched, match: "skipped" };
+      continue;
+    }
+    const dates = items.map((item) => item.initiated).sort();
+    const { data } = await queryOpenFDA("enforcement", [`recalling_firm:"${escapeExpressionValue(firm)}"`, dateRangePart("enforcement", dates[0], dates.at(-1))], { limit: MAX_LIMIT });
+    if (data.error && data.error.code !== "NOT_FOUND") {
+      for (const { index } of items) severities[index] = { ...unmatched, match: "error" };
+      continue;
+    }
+    const reports = (data.results ?? []).filter((e) => !claimed.has(asString(e.recall_number)?.toUpperCase() ?? ""));
+    for (const { index, initiated } of items) {
+      const candidates = reports.filter((e) => normalizeDateResponse(asString(e.recall_initiation_date) ?? undefined) === initiated);
+      const classes = [...new Set(candidates.map((e) => asString(e.classification)).filter((c): c is string => c !== null))];
+      if (classes.length === 1) {
+        severities[index] = {
+          classification: classes[0]!,
+          match: "firm_and_date",
+          enforcement_recall_number: candidates.length === 1 ? asString(candidates[0]!.recall_number) : null,
+        };
+      } else if (classes.length > 1) {
+        severities[index] = { ...unmatched, match: "ambiguous" };
+      }
+    }
+  }
+  return severities;
+}
+
+function formatSeverity(severity: RecallSeverity): string {
+  switch (severity.match) {
+    case "recall_number":
+      return `${severity.classification} (enforcement report ${severity.enforcement_recall_number})`;
+    case "firm_and_date":
+      return `${severity.classification} (matched by firm and initiation date — verify on the FDA source page)`;
+    case "ambiguous":
+      return "not matched — enforcement reports for this firm and date disagree; check the FDA source page";
+    case "unmatched":
+      return "not matched in enforcement data — check the FDA source page";
+    case "skipped":
+      return `not looked up — the firm + date fallback covers ${SEVERITY_FALLBACK_FIRMS} firms per page; check the FDA source page`;
+    case "error":
+      return "enforcement lookup failed (openFDA error) — retry, or check the FDA source page";
+  }
+}
+
+function summarizeSeverityJoin(severities: RecallSeverity[]): string {
+  const count = (match: RecallSeverity["match"]) => severities.filter((s) => s.match === match).length;
+  const byNumber = count("recall_number");
+  const byFirmDate = count("firm_and_date");
+  const failed = count("error");
+  const skipped = count("skipped");
+  const missing = severities.length - byNumber - byFirmDate - failed - skipped;
+  return `Severity joined from enforcement reports: ${byNumber} by recall number, ${byFirmDate} by firm + date, ${missing} not matched${skipped ? `, ${skipped} not looked up` : ""}${failed ? `, ${failed} lookup(s) failed` : ""}.`;
+}
+
+// ─── Tool 4: search_recalls ─────────────────────────────────────────────────
+
+server.registerTool(
+  "search_recalls",
+  {
+    description: `Search FDA medical device recall database (2002+). Best used with a product_code. Note: recall severity classification (Class I/II/III) is not part of this endpoint — set include_severity to join it from the enforcement endpoint (matched by recall number, falling back to firm + initiation date), or check the FDA source link for each recall. Returns recall details with FDA source links.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      recalling_firm: z.string().optional().describe("Company name (partial match, expanded to spelling variants)"),
+      status: z.enum(["Open", "Completed", "Terminated"]).optional().describe("Recall status"),
+      date_from: z.string().optional().describe("Event initiation date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Event initiation date end (YYYY-MM-DD)"),
+      include_severity: z.boolean().optional().describe("Join Class I/II/III severity from enforcement reports (extra API calls)"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination (max 25,000 — use cursor to go further)"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchRecallsOutputSchema,
+  },
+  trackCall(async ({ product_code, recalling_firm, status, date_from, date_to, include_severity, limit, skip, cursor }) => {
+    if (!product_code && !recalling_firm) {
+      return errorResult("Error: Provide at least one of product_code or recalling_firm.");
+    }
+
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    const company = recalling_firm ? await resolveCompany("recall", recalling_firm) : null;
+    const filters = searchFilters("recall", { product_code, recalling_firm, status }, { recalling_firm: company?.part });
+    const searchParts = [...filters];
+    if (date_from || date_to || page.before) searchParts.push(dateRangePart("recall", date_from, page.before ?? date_to));
+    const sort = "event_date_initiated:desc";
+
+    const { data, url } = await queryOpenFDA("recall", searchParts, {
+      limit: limit ?? 10,
+      skip: page.skip,
+      sort,
+    });
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+
+    if (data.error) return errorResult(formatError(data, url));
+    if (!data.results?.length) {
+      return structuredResult(`No recall records found.${companyLine}\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data, company));
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("recall", filters, date_from, page, data, sort);
+    const severityJoin = include_severity ? await joinRecallSeverity(data.results) : null;
+    const severityLine = severityJoin ? `\n${summarizeSeverityJoin(severityJoin.severities)}` : "";
+    const lines: string[] = [`Found ${total} recall(s).${companyLine}${pageInfo ? `\n${pageInfo.line}` : ""}${severityLine}\n`];
+
+    for (const [i, r] of data.results.entries()) {
+      const initiated = r.event_date_initiated;
+      const posted = r.event_date_posted;
+      const cfresId = r.cfres_id;
+      const openfda = r.openfda;
+      const kNumbers = openfda?.k_number?.slice(0, 5)?.join(", ");
+
+      lines.push(`**Recall ${r.product_res_number ?? cfresId ?? "N/A"}** — ${r.recalling_firm ?? "N/A"}`);
+      lines.push(`  Product: ${r.product_description?.slice(0, 200) ?? "N/A"}`);
+      lines.push(`  Reason: ${r.reason_for_recall?.slice(0, 300) ?? "N/A"}`);
+      if (r.root_cause_description) lines.push(`  Root cause: ${r.root_cause_description}`);
+      lines.push(`  Status: ${r.recall_status ?? "N/A"} | Initiated: ${initiated ?? "N/A"} | Posted: ${posted ?? "N/A"}`);
+      lines.push(`  Quantity: ${r.product_quantity ?? "N/A"} | Distribution: ${r.distribution_pattern?.slice(0, 150) ?? "N/A"}`);
+      if (kNumbers) lines.push(`  Associated 510(k)s: ${kNumbers}`);
+      if (severityJoin) lines.push(`  Severity: ${formatSeverity(severityJoin.severities[i]!)}`);
+      lines.push(`  FDA source: ${cfresId ? linkRecall(cfresId) : "N/A"}`);
+      lines.push("");
+    }
+
+    if (severityJoin?.url) lines.push(`Severity source: ${decodeURIComponent(redactApiKey(severityJoin.url))}`, "");
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof SearchRecallsOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records: data.results.map((r, i) => ({ ...toRecallRecord(r), severity: severityJoin?.severities[i] })),
+      source: sourceInfo(url, data.meta),
+      company: companySearchOutput(company),
+      severity_source: severityJoin?.url ? sourceInfo(severityJoin.url, severityJoin.meta) : undefined,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 5: search_adverse_events ──────────────────────────────────────────
+
+const MAUDE_CAVEAT = `MAUDE Advisory: This data contains unverified, self-reported adverse event reports. Inclusion does not establish that a device caused or contributed to the reported event. Reports may be incomplete, inaccurate, or duplicated. See FDA's MAUDE FAQ for interpretation guidance.\n`;
+
+server.registerTool(
+  "search_adverse_events",
+  {
+    description: `Search FDA MAUDE (Manufacturer and User Facility Device Experience) database for adverse event reports. Returns curated fields only — not the full 80+ field record. IMPORTANT: MAUDE data contains unverified, self-reported information. Inclusion of a report does not establish causation. Reports may be incomplete, inaccurate, or duplicated. Always convey these caveats when presenting results to the user.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      brand_name: z.string().optional().describe("Device brand name"),
+      manufacturer: z.string().optional().describe("Manufacturer name (expanded to spelling variants)"),
+      event_type: z.enum(["Death", "Injury", "Malfunction", "Other"]).optional().describe("Event type"),
+      report_source: z.enum(["Manufacturer report", "Voluntary report", "User facility report", "Distributor report"]).optional().describe("Report source"),
+      date_from: z.string().optional().describe("Date received start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Date received end (YYYY-MM-DD)"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination (max 25,000 — use cursor to go further)"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchEventsOutputSchema,
+  },
+  trackCall(async ({ product_code, brand_name, manufacturer, event_type, report_source, date_from, date_to, limit, skip, cursor }) => {
+    if (!product_code && !brand_name && !manufacturer) {
+      return errorResult("Error: Provide at least one of product_code, brand_name, or manufacturer.");
+    }
+
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    const company = manufacturer ? await resolveCompany("event", manufacturer) : null;
+    const filters = searchFilters("event", { product_code, brand_name, manufacturer, event_type, report_source }, { manufacturer: company?.part });
+    const searchParts = [...filters];
+    if (date_from || date_to || page.before) searchParts.push(dateRangePart("event", date_from, page.before ?? date_to));
+    const sort = "date_received:desc";
+
+    const { data, url } = await queryOpenFDA("event", searchParts, {
+      limit: limit ?? 10,
+      skip: page.skip,
+      sort,
+    });
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+
+    if (data.error) return errorResult(`${MAUDE_CAVEAT}\n${formatError(data, url)}`);
+    if (!data.results?.length) {
+      return structuredResult(
+        `${MAUDE_CAVEAT}\nNo adverse event records found.${companyLine}\n\n${formatFooter(url, data.meta)}`,
+        { ...emptySearchOutput(page, url, data, company), caveat: MAUDE_CAVEAT.trim() },
+      );
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("event", filters, date_from, page, data, sort);
+    const lines: string[] = [MAUDE_CAVEAT, `Found ${total} adverse event report(s).${companyLine}${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+
+    for (const r of data.results) {
+      const devices = r.device;
+      const device = devices?.[0] ?? {};
+      const patients = r.patient;
+      const patient = patients?.[0];
+      const mdrTexts = r.mdr_text;
+      const eventDesc = mdrTexts?.find((t) => t.text_type_code === "Description of Event or Problem");
+
+      const dateOfEvent = normalizeDateResponse(r.date_of_event);
+      const dateReceived = normalizeDateResponse(r.date_received);
+      const patientOutcome = patient
+        ? (patient.sequence_number_outcome ?? []).join(", ").trim()
+        : "N/A";
+      const mdrKey = r.mdr_report_key;
+
+      lines.push(`**${r.report_number ?? mdrKey ?? "N/A"}** — ${r.event_type ?? "N/A"}`);
+      lines.push(`  Device: ${device.brand_name ?? "N/A"} (${device.generic_name ?? "N/A"})`);
+      lines.push(`  Manufacturer: ${device.manufacturer_d_name ?? "N/A"} | Model: ${device.model_number ?? "N/A"}`);
+      lines.push(`  Product code: ${device.device_report_product_code ?? "N/A"}`);
+      lines.push(`  Date of event: ${dateOfEvent ?? "N/A"} | Date received: ${dateReceived ?? "N/A"}`);
+      lines.push(`  Patient outcome: ${patientOutcome || "N/A"}`);
+      lines.push(`  Report source: ${r.report_source_code ?? "N/A"}`);
+      if (eventDesc) {
+        const text = eventDesc.text?.slice(0, 400) ?? "";
+        lines.push(`  Description: ${text}${text.length >= 400 ? "... (full record: get_adverse_event)" : ""}`);
+      }
+      lines.push(`  FDA source: ${mdrKey ? linkMAUDE(mdrKey) : "N/A"}`);
+      lines.push("");
+    }
+
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof SearchEventsOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records: data.results.map(toAdverseEventRecord),
+      source: sourceInfo(url, data.meta),
+      company: companySearchOutput(company),
+      caveat: MAUDE_CAVEAT.trim(),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 6: count_devices ──────────────────────────────────────────────────
+// Aggregations via openFDA count= queries, on a whitelist of fields per endpoint.
+// Counting a date field returns daily buckets, which are rolled up by interval.
+
+interface CountField {
+  path: string;
+  label: string;
+  date?: boolean;
+}
+
+const COUNT_FIELDS: Record<string, Record<string, CountField>> = {
+  classification: {
+    device_class: { path: "device_class", label: "Device class" },
+    medical_specialty: { path: "medical_specialty", label: "Panel" },
+    submission_type_id: { path: "submission_type_id", label: "Submission type" },
+    third_party_flag: { path: "third_party_flag", label: "Third-party eligible" },
+    implant_flag: { path: "implant_flag", label: "Implant" },
+  },
+  "510k": {
+    decision_date: { path: "decision_date", label: "Decision date", date: true },
+    date_received: { path: "date_received", label: "Date received", date: true },
+    applicant: { path: "applicant.exact", label: "Applicant" },
+    product_code: { path: "product_code", label: "Product code" },
+    decision_code: { path: "decision_code", label: "Decision code" },
+    clearance_type: { path: "clearance_type.exact", label: "Clearance type" },
+    advisory_committee: { path: "advisory_committee", label: "Panel" },
+    third_party_flag: { path: "third_party_flag", label: "Third-party review" },
+    country_code: { path: "country_code", label: "Country" },
+  },
+  pma: {
+    decision_date: { path: "decision_date", label: "Decision date", date: true },
+    applicant: { path: "applicant.exact", label: "Applicant" },
+    product_code: { path: "product_code", label: "Product code" },
+    decision_code: { path: "decision_code", label: "Decision code" },
+    supplement_type: { path: "supplement_type.exact", label: "Supplement type" },
+    supplement_reason: { path: "supplement_reason.exact", label: "Supplement reason" },
+    advisory_committee: { path: "advisory_committee", label: "Panel" },
+  },
+  recall: {
+    event_date_initiated: { path: "event_date_initiated", label: "Initiation date", date: true },
+    recalling_firm: { path: "recalling_firm.exact", label: "Recalling firm" },
+    root_cause_description: { path: "root_cause_description.exact", label: "Root cause" },
+    recall_status: { path: "recall_status.exact", label: "Status" },
+    product_code: { path: "product_code", label: "Product code" },
+  },
+  enforcement: {
+    recall_initiation_date: { path: "recall_initiation_date", label: "Initiation date", date: true },
+    classification: { path: "classification.exact", label: "Severity class" },
+    status: { path: "status.exact", label: "Status" },
+    recalling_firm: { path: "recalling_firm.exact", label: "Recalling firm" },
+    voluntary_mandated: { path: "voluntary_mandated.exact", label: "Voluntary / mandated" },
+  },
+  event: {
+    date_received: { path: "date_received", label: "Date received", date: true },
+    date_of_event: { path: "date_of_event", label: "Date of event", date: true },
+    event_type: { path: "event_type.exact", label: "Event type" },
+    report_source_code: { path: "report_source_code.exact", label: "Report source" },
+    product_problems: { path: "product_problems.exact", label: "Product problem" },
+    patient_outcome: { path: "patient.sequence_number_outcome.exact", label: "Patient outcome" },
+    manufacturer: { path: "device.manufacturer_d_name.exact", label: "Manufacturer" },
+    brand_name: { path: "device.brand_name.exact", label: "Brand name" },
+    product_code: { path: "device.device_report_product_code.exact", label: "Product code" },
+  },
+};
+
+const COUNT_CAVEATS: Record<string, string> = {
+  classification: "Counts are classification product codes, not devices on the market.",
+  "510k": "Counts are 510(k) decision records, including not-SE decisions unless `decision` is set. Company names are exact strings, so one firm's name variants are counted separately.",
+  pma: "Counts are PMA records including supplements — one approved device can contribute hundreds of rows.",
+  recall: "Counts are product-level recall records (2002+); one recall event can cover several products. Firm names are exact strings.",
+  enforcement: "Counts are enforcement report entries (2004+), one per recalled product. Reports lag the recall itself and the openfda block is often empty, so product-code coverage is incomplete.",
+  event: "Counts are MAUDE reports, not confirmed incidents or devices. Duplicates, summary reporting and reporting lag all distort totals and trends.",
+};
+
+const COUNT_ENDPOINTS = ["classification", "510k", "pma", "recall", "enforcement", "event"] as const;
+
+const CountRowSchema = z.object({ value: z.string(), count: z.number() });
+
+const CountOutputSchema = z.object({
+  endpoint: z.string(),
+  tables: z.array(z.object({
+    field: z.string(),
+    label: z.string(),
+    interval: z.enum(["day", "month", "year"]).nullable(),
+    rows: z.array(CountRowSchema),
+    caveat: z.string(),
+    source: SourceSchema,
+  })),
+  caveat: nullableString.describe("Mandatory MAUDE caveat for event counts"),
+});
+
+// Roll openFDA's daily time buckets (YYYYMMDD) up to the requested interval
+function bucketDates(results: Record<string, unknown>[], interval: "day" | "month" | "year"): z.infer<typeof CountRowSchema>[] {
+  const width = interval === "year" ? 4 : interval === "month" ? 7 : 10;
+  const buckets = new Map<string, number>();
+  for (const r of results) {
+    const date = normalizeDateResponse(String(r.time ?? ""));
+    if (!date) continue;
+    const key = date.slice(0, width);
+    buckets.set(key, (buckets.get(key) ?? 0) + Number(r.count ?? 0));
+  }
+  return [...buckets.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([value, count]) => ({ value, count }));
+}
+
+server.registerTool(
+  "count_devices",
+  {
+    description: `Count openFDA device records grouped by a field — e.g. 510(k) clearances per year for a product code, recall root causes for a firm, Class I recalls per year, or MAUDE event types by month. Endpoints: classification, 510k, pma, recall, enforcement, event. Takes the same filters as the search tools. Date fields are bucketed by interval; other fields return the top values. Countable fields: ${Object.entries(COUNT_FIELDS).map(([ep, fields]) => `${ep}: ${Object.keys(fields).join(", ")}`).join("; ")}. Aggregates strip context — always convey the caveat returned with each table.`,
+    inputSchema: {
+      endpoint: z.enum(COUNT_ENDPOINTS).describe("Endpoint to count"),
+      fields: z.array(z.string()).min(1).max(3).describe("Fields to count by — one table per field (see description for the whitelist)"),
+      interval: z.enum(["day", "month", "year"]).optional().describe("Bucket size for date fields (default year)"),
+      limit: z.number().min(1).max(100).optional().describe("Top values to return for non-date fields (default 20)"),
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      device_class: z.enum(["1", "2", "3"]).optional().describe("Device class (classification)"),
+      applicant: z.string().optional().describe("Company name (510k, pma)"),
+      device_name: z.string().optional().describe("Device name (510k)"),
+      decision: z.enum(["SESE", "SEKN", "SESD"]).optional().describe("Decision code (510k)"),
+      clearance_type: z.enum(["Traditional", "Special", "Abbreviated"]).optional().describe("Clearance type (510k)"),
+      advisory_committee: z.string().optional().describe("Panel code (510k, pma)"),
+      trade_name: z.string().optional().describe("Commercial product name (pma)"),
+      recalling_firm: z.string().optional().describe("Company name (recall, enforcement)"),
+      recall_number: z.string().optional().describe("Enforcement recall number, e.g. Z-1234-2024 (enforcement)"),
+      classification: z.enum(["Class I", "Class II", "Class III"]).optional().describe("Recall severity (enforcement)"),
+      status: z.enum(["Open", "Ongoing", "Completed", "Terminated", "Pending"]).optional().describe("Recall status (recall: Open/Completed/Terminated; enforcement: Ongoing/Completed/Terminated/Pending)"),
+      brand_name: z.string().optional().describe("Device brand name (event)"),
+      manufacturer: z.string().optional().describe("Manufacturer name (event)"),
+      event_type: z.enum(["Death", "Injury", "Malfunction", "Other"]).optional().describe("Event type (event)"),
+      report_source: z.enum(["Manufacturer report", "Voluntary report", "User facility report", "Distributor report"]).optional().describe("Report source (event)"),
+      date_from: z.string().optional().describe("Start of the endpoint's main date field (YYYY-MM-DD; not for classification)"),
+      date_to: z.string().optional().describe("End of the endpoint's main date field (YYYY-MM-DD; not for classification)"),
+    },
+    outputSchema: CountOutputSchema,
+  },
+  trackCall(async ({ endpoint, fields, interval, limit, date_from, date_to, ...filterArgs }) => {
+    const whitelist = COUNT_FIELDS[endpoint]!;
+    for (const field of fields) {
+      if (!whitelist[field]) {
+        return errorResult(`Validation error: "${field}" is not countable on ${endpoint}. Countable fields: ${Object.keys(whitelist).join(", ")}.`);
+      }
+    }
+    const allowed = ENDPOINT_FILTER_PARAMS[endpoint]!;
+    const misplaced = Object.entries(filterArgs)
+      .filter(([param, value]) => value !== undefined && !allowed.includes(param as keyof SearchFilterArgs))
+      .map(([param]) => param);
+    if (misplaced.length > 0) {
+      return errorResult(`Validation error: ${misplaced.join(", ")} cannot filter ${endpoint} counts. Filters for ${endpoint}: ${allowed.join(", ")}${SEARCH_DATE_FIELDS[endpoint] ? ", date_from, date_to" : ""}.`);
+    }
+    if (filterArgs.product_code) {
+      const err = validateProductCode(filterArgs.product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if ((date_from || date_to) && !SEARCH_DATE_FIELDS[endpoint]) {
+      return errorResult(`Validation error: ${endpoint} records have no date to filter on. Remove date_from/date_to.`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+
+    const searchParts = searchFilters(endpoint, filterArgs);
+    if (date_from || date_to) searchParts.push(dateRangePart(endpoint, date_from, date_to));
+
+    const caveat = COUNT_CAVEATS[endpoint]!;
+    const sections: string[] = [];
+    const tables: z.infer<typeof CountOutputSchema>["tables"] = [];
+
+    for (const field of fields) {
+      const spec = whitelist[field]!;
+      const bucket = spec.date ? interval ?? "year" : null;
+      const { data, url } = await queryOpenFDA(endpoint, searchParts, { count: spec.path, limit: spec.date ? 1000 : limit ?? 20 });
+      if (data.error) {
+        const text = formatError(data, url);
+        return errorResult(endpoint === "event" ? `${MAUDE_CAVEAT}\n${text}` : text);
+      }
+
+      const results = data.results ?? [];
+      const rows = bucket
+        ? bucketDates(results, bucket)
+        : results.map((r) => ({ value: String(r.term ?? ""), count: Number(r.count ?? 0) }));
+      const title = bucket ? `${spec.label} by ${bucket}` : `${spec.label} (top ${rows.length})`;
+
+      const lines: string[] = [`### ${title}\n`, `| ${bucket ? bucket[0]!.toUpperCase() + bucket.slice(1) : spec.label} | Count |`, "|---|---:|"];
+      for (const row of rows) lines.push(`| ${row.value.replace(/\|/g, "\\|")} | ${row.count} |`);
+      if (rows.length === 0) lines.push("| _no records_ | 0 |");
+      lines.push("", `_Caveat: ${caveat}_`, "", formatFooter(url, data.meta));
+      sections.push(lines.join("\n"));
+
+      tables.push({ field, label: spec.label, interval: bucket, rows, caveat, source: sourceInfo(url, data.meta) });
+    }
+
+    const header = `Counts from openFDA ${endpoint} records.\n`;
+    const body = [header, ...sections].join("\n\n");
+    const output: z.infer<typeof CountOutputSchema> = {
+      endpoint,
+      tables,
+      caveat: endpoint === "event" ? MAUDE_CAVEAT.trim() : null,
+    };
+    return structuredResult(endpoint === "event" ? `${MAUDE_CAVEAT}\n${body}` : body, output);
+  })
+);
+
+// ─── Tool 7: search_enforcement ─────────────────────────────────────────────
+
+server.registerTool(
+  "search_enforcement",
+  {
+    description: `Search FDA device enforcement reports (2004+) — the weekly Enforcement Report entries that carry recall severity (Class I = serious injury or death likely, Class II = temporary or reversible harm, Class III = unlikely to cause harm). Use this for severity; use search_recalls for root cause and linked 510(k)s. Enforcement records often lack product codes, so search by firm, recall number or classification.`,
+    inputSchema: {
+      recalling_firm: z.string().optional().describe("Company name"),
+      recall_number: z.string().optional().describe("Recall number, e.g. Z-1234-2024"),
+      classification: z.enum(["Class I", "Class II", "Class III"]).optional().describe("Recall severity"),
+      status: z.enum(["Ongoing", "Completed", "Terminated", "Pending"]).optional().describe("Recall status"),
+      date_from: z.string().optional().describe("Recall initiation date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Recall initiation date end (YYYY-MM-DD)"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchEnforcementOutputSchema,
+  },
+  trackCall(async ({ recalling_firm, recall_number, classification, status, date_from, date_to, limit, skip, cursor }) => {
+    if (!recalling_firm && !recall_number && !classification) {
+      return errorResult("Error: Provide at least one of recalling_firm, recall_number, or classification.");
+    }
+
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    const filters = searchFilters("enforcement", { recalling_firm, recall_number, classification, status });
+    const searchParts = [...filters];
+    if (date_from || date_to || page.before) searchParts.push(dateRangePart("enforcement", date_from, page.before ?? date_to));
+    const sort = "recall_initiation_date:desc";
+
+    const { data, url } = await queryOpenFDA("enforcement", searchParts, {
+      limit: limit ?? 10,
+      skip: page.skip,
+      sort,
+    });
+
+    if (data.error) return errorResult(formatError(data, url));
+    if (!data.results?.length) {
+      return structuredResult(`No enforcement reports found.\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data));
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("enforcement", filters, date_from, page, data, sort);
+    const lines: string[] = [`Found ${total} enforcement report(s).${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+
+    for (const r of data.results) {
+      const e = toEnforcementRecord(r);
+      lines.push(`**${e.recall_number ?? "N/A"}** — ${e.classification ?? "Unclassified"} — ${e.recalling_firm ?? "N/A"}`);
+      lines.push(`  Product: ${e.product_description?.slice(0, 200) ?? "N/A"}`);
+      lines.push(`  Reason: ${e.reason_for_recall?.slice(0, 300) ?? "N/A"}`);
+      lines.push(`  Status: ${e.status ?? "N/A"} | Initiated: ${e.recall_initiation_date ?? "N/A"} | Classified: ${e.center_classification_date ?? "N/A"} | Reported: ${e.report_date ?? "N/A"}`);
+      lines.push(`  Quantity: ${e.product_quantity ?? "N/A"} | Distribution: ${e.distribution_pattern?.slice(0, 150) ?? "N/A"}`);
+      if (e.voluntary_mandated) lines.push(`  Initiated by: ${e.voluntary_mandated}`);
+      lines.push(`  FDA source: Enforcement Report (search ${e.recall_number ?? "the recall number"}) ${e.source_url}`);
+      lines.push("");
+    }
+
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof SearchEnforcementOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records: data.results.map(toEnforcementRecord),
+      source: sourceInfo(url, data.meta),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 8: search_udi ─────────────────────────────────────────────────────
+
+function formatFlag(flag: boolean | null): string {
+  return flag === null ? "N/A" : flag ? "yes" : "no";
+}
+
+function formatUDIRecord(u: UDIRecord): string[] {
+  const model = u.version_or_model_number ? ` (${u.version_or_model_number})` : "";
+  const primary = u.identifiers.find((i) => i.id === u.primary_di);
+  const lines = [`**${u.brand_name ?? "N/A"}${model}** — ${u.company_name ?? "N/A"}`];
+  lines.push(`  Primary DI: ${u.primary_di ?? "N/A"}${primary?.issuing_agency ? ` (${primary.issuing_agency})` : ""}${u.catalog_number ? ` | Catalog: ${u.catalog_number}` : ""}`);
+  const packages = u.identifiers.filter((i) => i.id !== u.primary_di);
+  if (packages.length) lines.push(`  Other DIs: ${packages.map((i) => `${i.id} (${i.type ?? "N/A"}${i.quantity_per_package ? `, qty ${i.quantity_per_package}` : ""})`).join("; ")}`);
+  if (u.device_description) lines.push(`  Description: ${u.device_description.slice(0, 200)}`);
+  if (u.gmdn_terms.length) lines.push(`  GMDN: ${u.gmdn_terms.map((g) => g.name).join("; ")}`);
+  for (const p of u.product_codes) {
+    lines.push(`  Product code: ${p.code}${p.name ? ` — ${p.name}` : ""}${p.device_class ? ` (Class ${p.device_class})` : ""} ${p.classification_url}`);
+  }
+  for (const s of u.premarket_submissions) {
+    const number = s.supplement_number ? `${s.submission_number}/${s.supplement_number}` : s.submission_number;
+    lines.push(`  Premarket submission: ${number}${s.source_url ? ` ${s.source_url}` : ""}`);
+  }
+  if (!u.premarket_submissions.length) lines.push("  Premarket submission: none listed (may be exempt)");
+  const methods = u.sterilization.methods.length ? ` (${u.sterilization.methods.join(", ")})` : "";
+  lines.push(`  Sterile: ${formatFlag(u.sterilization.is_sterile)}${methods} | Sterilize before use: ${formatFlag(u.sterilization.sterilize_prior_to_use)} | MRI safety: ${u.mri_safety ?? "N/A"}`);
+  lines.push(`  Rx: ${formatFlag(u.is_rx)} | OTC: ${formatFlag(u.is_otc)} | Single use: ${formatFlag(u.is_single_use)} | ${u.commercial_distribution_status ?? "Distribution status N/A"}`);
+  if (u.source_url) lines.push(`  AccessGUDID: ${u.source_url}`);
+  lines.push("");
+  return lines;
+}
+
+server.registerTool(
+  "search_udi",
+  {
+    description: `Look up devices in the FDA Global Unique Device Identification Database (GUDID) by device identifier (from a label barcode), brand name, version/model, company or product code. Returns GMDN terms, sterilization and MRI-safety flags, product codes (linked to classification) and premarket submission numbers (linked to the 510(k)/PMA record), so a label can be traced to its clearance in one step.`,
+    inputSchema: {
+      primary_di: z.string().optional().describe("Device identifier (GTIN/HIBCC/ICCBBA) — package DIs also match"),
+      brand_name: z.string().optional().describe("Brand name"),
+      version_or_model: z.string().optional().describe("Version or model number"),
+      company_name: z.string().optional().describe("Labeler company name"),
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchUDIOutputSchema,
+  },
+  trackCall(async ({ primary_di, brand_name, version_or_model, company_name, product_code, limit, skip, cursor }) => {
+    if (!primary_di && !brand_name && !version_or_model && !company_name && !product_code) {
+      return errorResult("Error: Provide at least one of primary_di, brand_name, version_or_model, company_name, or product_code.");
+    }
+
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    const filters = searchFilters("udi", { primary_di: primary_di?.trim(), brand_name, version_or_model, company_name, product_code });
+    const { data, url } = await queryOpenFDA("udi", filters, {
+      limit: limit ?? 10,
+      skip: page.skip,
+    });
+
+    if (data.error) return errorResult(formatError(data, url));
+    if (!data.results?.length) {
+      return structuredResult(`No GUDID records found.\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data));
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("udi", filters, undefined, page, data, undefined);
+    const records = data.results.map(toUDIRecord);
+    const lines: string[] = [`Found ${total} GUDID record(s).${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+    for (const u of records) lines.push(...formatUDIRecord(u));
+
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof SearchUDIOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records,
+      source: sourceInfo(url, data.meta),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 9: search_registrations ───────────────────────────────────────────
+
+const REGISTRATION_PRODUCTS_SHOWN = 10;
+
+function formatRegistrationRecord(e: RegistrationRecord, productCode?: string): string[] {
+  const lines = [`**${e.name ?? "N/A"}** — registration ${e.registration_number ?? "N/A"} | FEI ${e.fei_number ?? "N/A"}`];
+  lines.push(`  Address: ${e.address ?? "N/A"}`);
+  if (e.owner_operator) {
+    const number = e.owner_operator.owner_operator_number ? ` (${e.owner_operator.owner_operator_number})` : "";
+    lines.push(`  Owner/operator: ${e.owner_operator.firm_name ?? "N/A"}${number}${e.owner_operator.address ? ` — ${e.owner_operator.address}` : ""}`);
+  }
+  lines.push(`  Establishment type: ${e.establishment_types.join("; ") || "N/A"}${e.registration_expiry_year ? ` | Registered through: ${e.registration_expiry_year}` : ""}`);
+  if (e.proprietary_names.length) lines.push(`  Proprietary names: ${e.proprietary_names.slice(0, 10).join("; ")}${e.proprietary_names.length > 10 ? "; …" : ""}`);
+
+  // The searched product code first, then the rest of the listing
+  const code = productCode?.toUpperCase();
+  const products = [...e.products].sort((a, b) => Number(b.product_code === code) - Number(a.product_code === code));
+  for (const p of products.slice(0, REGISTRATION_PRODUCTS_SHOWN)) {
+    const details = [p.device_name, p.device_class ? `Class ${p.device_class}` : null].filter(Boolean).join(", ");
+    lines.push(`  Product: ${p.product_code}${details ? ` — ${details}` : ""} ${p.classification_url}`);
+  }
+  if (products.length > REGISTRATION_PRODUCTS_SHOWN) lines.push(`  …and ${products.length - REGISTRATION_PRODUCTS_SHOWN} more listed product(s)`);
+  lines.push(`  FDA source: Establishment Registration & Device Listing (search registration ${e.registration_number ?? "N/A"}) ${e.source_url}`);
+  lines.push("");
+  return lines;
+}
+
+server.registerTool(
+  "search_registrations",
+  {
+    description: `Search FDA establishment registration and device listing data — who makes, contract-manufactures, sterilizes, relabels or imports devices, and where. Search by product code, firm name (matches the establishment or its owner/operator), FEI number, registration number, country (ISO 2-letter code) or establishment type (e.g. "Manufacture Medical Device", "Contract Manufacturer", "Contract Sterilizer", "Specification Developer"). Returns the establishment address, owner/operator, establishment types and listed products with product codes linked to their classification.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code listed by the establishment"),
+      firm_name: z.string().optional().describe("Establishment or owner/operator name"),
+      fei_number: z.string().optional().describe("FDA Establishment Identifier"),
+      registration_number: z.string().optional().describe("Establishment registration number"),
+      country: z.string().optional().describe("ISO 3166 2-letter country code, e.g. US, CN, DE"),
+      establishment_type: z.string().optional().describe("Establishment type, e.g. \"Contract Manufacturer\""),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchRegistrationsOutputSchema,
+  },
+  trackCall(async ({ product_code, firm_name, fei_number, registration_number, country, establishment_type, limit, skip, cursor }) => {
+    if (!product_code && !firm_name && !fei_number && !registration_number && !country && !establishment_type) {
+      return errorResult("Error: Provide at least one of product_code, firm_name, fei_number, registration_number, country, or establishment_type.");
+    }
+
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (fei_number && !/^\d+$/.test(fei_number.trim())) return errorResult("Validation error: fei_number must be digits only.");
+    if (registration_number && !/^\d+$/.test(registration_number.trim())) return errorResult("Validation error: registration_number must be digits only.");
+    if (country && !/^[A-Za-z]{2}$/.test(country)) return errorResult(`Validation error: country must be an ISO 2-letter code (e.g. US, CN). Got: "${country}"`);
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
+
+    const filters = searchFilters("registrationlisting", {
+      product_code,
+      firm_name,
+      fei_number: fei_number?.trim(),
+      registration_number: registration_number?.trim(),
+      country,
+      establishment_type,
+    });
+    const { data, url } = await queryOpenFDA("registrationlisting", filters, {
+      limit: limit ?? 10,
+      skip: page.skip,
+    });
+
+    if (data.error) return errorResult(formatError(data, url));
+    if (!data.results?.length) {
+      return structuredResult(`No establishment registrations found.\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data));
+    }
+
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = await describePage("registrationlisting", filters, undefined, page, data, undefined);
+    const records = data.results.map(toRegistrationRecord);
+    const lines: string[] = [`Found ${total} establishment registration(s).${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+    for (const e of records) lines.push(...formatRegistrationRecord(e, product_code));
+
+    lines.push(formatFooter(url, data.meta));
+    const output: z.infer<typeof SearchRegistrationsOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records,
+      source: sourceInfo(url, data.meta),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 10: compare_devices ───────────────────────────────────────────────
+
+const COMPARE_RECALL_YEARS = 5;
+const COMPARE_REVIEW_SAMPLE = 100;
+
+// Classification submission_type_id values that bear on exemption
+const SUBMISSION_TYPES: Record<string, string> = {
+  "1": "510(k) required",
+  "2": "PMA required",
+  "3": "Contact ODE",
+  "4": "510(k) exempt",
+};
+
+const CompareCellSchema = z.object({
+  value: z.string(),
+  query_url: nullableString.describe("openFDA API URL behind this cell (API key redacted)"),
+  source_url: nullableString.describe("FDA page for this cell, when one exists"),
+});
+
+const CompareOutputSchema = z.object({
+  items: z.array(z.object({
+    input: z.string(),
+    product_code: z.string(),
+    submission: z.object({
+      number: z.string(),
+      applicant: nullableString,
+      decision_date: nullableString,
+      source_url: z.string(),
+    }).nullable().describe("The 510(k)/PMA the column was resolved from, if any"),
+  })),
+  rows: z.array(z.object({
+    key: z.string(),
+    label: z.string(),
+    cells: z.array(CompareCellSchema),
+  })),
+  last_updated: z.record(z.string(), nullableString).describe("openFDA meta.last_updated per endpoint"),
+  notes: z.array(z.string()),
+  caveat: z.string().describe("Mandatory MAUDE caveat for the adverse event row"),
+  disclaimer: z.string(),
+});
+
+type CompareCell = z.infer<typeof CompareCellSchema>;
+type CompareItem = z.infer<typeof CompareOutputSchema>["items"][number];
 
-  return [...contiguous, ...nonContiguous];
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : Math.round((sorted[mid - 1]! + sorted[mid]!) / 2);
 }
 
-// Score how relevant results are to the original query terms.
-// Returns 0-1 where 1 = all original terms "covered" in device names/definitions.
-// A term is "covered" if either the term itself appears, or ALL words of a synonym expansion appear.
-function scoreResults(results: Record<string, unknown>[], originalTerms: string[]): number {
-  if (!results.length || !originalTerms.length) return 0;
+function yearsAgo(years: number): string {
+  const d = new Date();
+  d.setUTCFullYear(d.getUTCFullYear() - years);
+  return d.toISOString().slice(0, 10);
+}
 
-  // Build a coverage map: for each original term, what match patterns count?
-  // Each pattern is either a single word (must appear) or a multi-word phrase (ALL words must appear).
-  const coverageMap: { original: string; patterns: string[][] }[] = originalTerms.map((t) => {
-    const lower = t.toLowerCase();
-    const patterns: string[][] = [[lower]]; // the literal term itself (single word)
-    if (SYNONYMS[lower]) {
-      for (const syn of SYNONYMS[lower]) {
-        const words = syn.toLowerCase().split(/\s+/);
-        patterns.push(words); // multi-word: ALL must match
-      }
-    }
-    return { original: lower, patterns };
-  });
+// A K, DEN or P number resolves to the product code on its record. A string is
+// the error text: a bad or unknown number, or the lookup's own failure.
+async function resolveCompareItem(input: string): Promise<CompareItem | string> {
+  const value = stripDashes(input.trim().toUpperCase());
+  if (PRODUCT_CODE_RE.test(value)) return { input, product_code: value, submission: null };
 
-  let totalScore = 0;
-  for (const r of results) {
-    const name = ((r.device_name as string) ?? "").toLowerCase();
-    const def = ((r.definition as string) ?? "").toLowerCase();
-    const text = `${name} ${def}`;
-    let covered = 0;
-    for (const { patterns } of coverageMap) {
-      // A term is covered if ANY pattern matches (where multi-word patterns require ALL words)
-      const isCovered = patterns.some((words) => words.every((w) => text.includes(w)));
-      if (isCovered) covered++;
-    }
-    totalScore += covered / coverageMap.length;
+  const isK = K_NUMBER_RE.test(value) || DEN_NUMBER_RE.test(value);
+  if (!isK && !PMA_NUMBER_RE.test(value)) {
+    return `Validation error: "${input}" is not a product code (e.g. DXN), 510(k) number (e.g. K032161), De Novo number (e.g. DEN200013) or PMA number (e.g. P170019).`;
   }
-  return totalScore / results.length;
+  const endpoint = isK ? "510k" : "pma";
+  const field = isK ? "k_number" : "pma_number";
+  const { data, url } = await queryOpenFDA(endpoint, [`${field}:${value}`], { limit: 1, sort: isK ? undefined : "decision_date:asc" });
+  if (data.error && data.error.code !== "NOT_FOUND") return formatError(data, url);
+  const record = data.results?.[0];
+  const productCode = asString(record?.product_code);
+  if (!record || !productCode) return `Validation error: ${value} was not found in the openFDA ${isK ? "510(k)" : "PMA"} data.`;
+  return {
+    input,
+    product_code: productCode.toUpperCase(),
+    submission: {
+      number: value,
+      applicant: asString(record.applicant),
+      decision_date: normalizeDateResponse(record.decision_date),
+      source_url: isK ? link510kRecord(value) : linkPMA(value),
+    },
+  };
 }
 
-function formatFooter(url: string, meta?: OpenFDAResponse["meta"]): string {
-  const lastUpdated = meta?.last_updated ?? "unknown";
-  return [
-    "---",
-    `Query: ${decodeURIComponent(url)}`,
-    `Data source: openFDA (last updated: ${lastUpdated})`,
-    `Disclaimer: openFDA data is unvalidated. Verify on FDA.gov before making regulatory decisions.`,
-  ].join("\n");
-}
+// One column of the matrix. Every cell carries the URL that produced it;
+// a NOT_FOUND answer from openFDA means zero matches, not an error.
+async function compareColumn(item: CompareItem, lastUpdated: Record<string, string | null>): Promise<Record<string, CompareCell>> {
+  const pc = item.product_code;
+  const cells: Record<string, CompareCell> = {};
+  const errorCell = (data: OpenFDAResponse, url: string): CompareCell | null =>
+    data.error && data.error.code !== "NOT_FOUND" ? { value: `error: ${data.error.message ?? "unknown"}`, query_url: redactedUrl(url), source_url: null } : null;
+  const note = (endpoint: string, data: OpenFDAResponse) => {
+    if (data.meta?.last_updated) lastUpdated[endpoint] = data.meta.last_updated;
+  };
 
-function formatError(data: OpenFDAResponse, url: string): string {
-  const msg = data.error?.message ?? "Unknown error";
-  return `Error: ${msg}\n\n${formatFooter(url, data.meta)}`;
-}
+  const classification = await queryOpenFDA("classification", [`product_code:${pc}`], { limit: 1 });
+  note("classification", classification.data);
+  const c = classification.data.results?.[0];
+  const classUrl = redactedUrl(classification.url);
+  const classCell = (value: string | null, source_url: string | null = linkClassification(pc)): CompareCell =>
+    errorCell(classification.data, classification.url) ?? { value: value ?? "N/A", query_url: classUrl, source_url };
+  const regNum = asString(c?.regulation_number);
+  const submissionType = asString(c?.submission_type_id);
+  cells.device_name = classCell(c ? asString(c.device_name) : "not in classification data");
+  cells.device_class = classCell(asString(c?.device_class));
+  cells.regulation = classCell(regNum, regNum ? linkECFR(regNum) || null : null);
+  cells.panel = classCell(c ? `${asString(c.medical_specialty_description) ?? "N/A"} (${asString(c.review_panel) ?? asString(c.medical_specialty) ?? "N/A"})` : null);
+  cells.exemption = classCell(c
+    ? `${submissionType ? SUBMISSION_TYPES[submissionType] ?? `submission type ${submissionType}` : "N/A"}; GMP exempt: ${asString(c.gmp_exempt_flag) ?? "N/A"}`
+    : null);
+  cells.third_party = classCell(asString(c?.third_party_flag));
+
+  const decisions = await queryOpenFDA("510k", [`product_code:${pc}`], { count: "decision_code", limit: 100 });
+  note("510k", decisions.data);
+  const decisionRows = decisions.data.results ?? [];
+  const totalDecisions = decisionRows.reduce((sum, r) => sum + Number(r.count ?? 0), 0);
+  const cleared = decisionRows
+    .filter((r) => String(r.term ?? "").toUpperCase().startsWith("SE") && String(r.term).toUpperCase() !== "SEKN")
+    .reduce((sum, r) => sum + Number(r.count ?? 0), 0);
+
+  const sample = await queryOpenFDA("510k", [`product_code:${pc}`], { limit: COMPARE_REVIEW_SAMPLE, sort: "decision_date:desc" });
+  const latest = asString(sample.data.results?.[0]?.k_number);
+  cells.clearances = errorCell(decisions.data, decisions.url) ?? {
+    value: `${cleared.toLocaleString()} cleared of ${totalDecisions.toLocaleString()} decisions${latest ? ` (latest ${latest})` : ""}`,
+    query_url: redactedUrl(decisions.url),
+    source_url: latest ? link510kRecord(latest) : null,
+  };
+  const reviewDays = (sample.data.results ?? [])
+    .map(toPremarketNotification)
+    .map((r) => r.days_to_decision)
+    .filter((d): d is number => d !== null);
+  const medianDays = median(reviewDays);
+  cells.review_time = errorCell(sample.data, sample.url) ?? {
+    value: medianDays === null ? "N/A" : `${medianDays} days (latest ${reviewDays.length} decisions)`,
+    query_url: redactedUrl(sample.url),
+    source_url: null,
+  };
 
-// ─── MCP Server ──────────────────────────────────────────────────────────────
+  const pma = await queryOpenFDA("pma", [`product_code:${pc}`], { limit: 1, sort: "decision_date:desc" });
+  note("pma", pma.data);
+  const latestPma = asString(pma.data.results?.[0]?.pma_number);
+  cells.pma = errorCell(pma.data, pma.url) ?? {
+    value: `${(pma.data.meta?.results?.total ?? 0).toLocaleString()} records incl. supplements${latestPma ? ` (latest ${latestPma})` : ""}`,
+    query_url: redactedUrl(pma.url),
+    source_url: latestPma ? linkPMA(latestPma) : null,
+  };
 
-const server = new McpServer({
-  name: "fda-devices",
-  version: "1.0.0",
-});
+  const since = yearsAgo(COMPARE_RECALL_YEARS);
+  const recalls = await queryOpenFDA("recall", [`product_code:${pc}`, dateRangePart("recall", since, undefined)], { limit: 1, sort: "event_date_initiated:desc" });
+  note("recall", recalls.data);
+  const latestRecall = recalls.data.results?.[0];
+  const recallId = asString(latestRecall?.cfres_id);
+  cells.recalls = errorCell(recalls.data, recalls.url) ?? {
+    value: latestRecall
+      ? `${(recalls.data.meta?.results?.total ?? 0).toLocaleString()} since ${since} (latest ${asString(latestRecall.product_res_number) ?? recallId}, ${normalizeDateResponse(latestRecall.event_date_initiated) ?? "N/A"})`
+      : `0 since ${since}`,
+    query_url: redactedUrl(recalls.url),
+    source_url: recallId ? linkRecall(recallId) : null,
+  };
 
-// ─── Tool 1: classify_device ─────────────────────────────────────────────────
+  const events = await queryOpenFDA("event", [`device.device_report_product_code:${pc}`], { count: "event_type.exact" });
+  note("event", events.data);
+  const eventRows = events.data.results ?? [];
+  cells.adverse_events = errorCell(events.data, events.url) ?? {
+    value: eventRows.length ? eventRows.map((r) => `${r.term}: ${Number(r.count ?? 0).toLocaleString()}`).join("; ") : "0 reports",
+    query_url: redactedUrl(events.url),
+    source_url: null,
+  };
 
-server.tool(
-  "classify_device",
-  `Look up FDA device classification by product code or device name. Returns product code, device class (I/II/III), regulation number, and regulatory details. FDA uses formal names like "Electrocardiograph, Ambulatory" not "wearable ECG patch" — try generic medical terms. If no results, try shorter/broader terms. Use this tool first to find the product code, then use other tools with that code. Panel codes: ${PANEL_LIST}.`,
+  return cells;
+}
+
+const COMPARE_ROWS: { key: string; label: string }[] = [
+  { key: "device_name", label: "Device" },
+  { key: "device_class", label: "Class" },
+  { key: "regulation", label: "Regulation" },
+  { key: "panel", label: "Panel" },
+  { key: "exemption", label: "Exemption" },
+  { key: "third_party", label: "Third-party review" },
+  { key: "clearances", label: "510(k) clearances" },
+  { key: "review_time", label: "Median 510(k) review time" },
+  { key: "pma", label: "PMA records" },
+  { key: "recalls", label: `Recalls (last ${COMPARE_RECALL_YEARS} years)` },
+  { key: "adverse_events", label: "MAUDE reports by event type" },
+];
+
+server.registerTool(
+  "compare_devices",
   {
-    product_code: z.string().optional().describe("Exact 3-letter FDA product code (e.g., 'DXN')"),
-    query: z.string().optional().describe("Device name or description to search for"),
-    device_class: z.enum(["1", "2", "3"]).optional().describe("Filter by device class"),
-    limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+    description: `Compare 2–5 product codes or 510(k)/De Novo/PMA numbers side by side (a K/DEN/P number is compared by its product code). Returns a matrix of device class, regulation, panel, exemption and third-party flags, 510(k) clearance counts, median review time of the latest ${COMPARE_REVIEW_SAMPLE} decisions, PMA records, recalls in the last ${COMPARE_RECALL_YEARS} years and MAUDE event-type counts. Every cell keeps its query URL and FDA source link. MAUDE counts are unverified reports — always convey the caveat.`,
+    inputSchema: {
+      items: z.array(z.string()).min(2).max(5).describe("Product codes (e.g. 'DXN') or K/DEN/P numbers (e.g. 'K032161', 'DEN200013', 'P170019')"),
+    },
+    outputSchema: CompareOutputSchema,
   },
-  async ({ product_code, query, device_class, limit }) => {
-    if (!product_code && !query) {
-      return { content: [{ type: "text" as const, text: "Error: Provide either product_code or query." }] };
+  trackCall(async ({ items: inputs }) => {
+    const items: CompareItem[] = [];
+    for (const input of inputs) {
+      const item = await resolveCompareItem(input);
+      if (typeof item === "string") return errorResult(item);
+      items.push(item);
     }
 
-    const resultLimit = limit ?? 10;
+    const lastUpdated: Record<string, string | null> = {};
+    const columns: Record<string, CompareCell>[] = [];
+    for (const item of items) columns.push(await compareColumn(item, lastUpdated));
 
-    // Auto-detect product code passed as query (e.g., query="QIH" instead of product_code="QIH")
-    if (!product_code && query && PRODUCT_CODE_RE.test(query.trim())) {
-      product_code = query.trim().toUpperCase();
-      query = undefined;
+    const headers = items.map((i) => (i.submission ? `${i.submission.number} (${i.product_code})` : i.product_code));
+    const escape = (text: string) => text.replace(/\|/g, "\\|");
+    const lines: string[] = [`Comparing ${headers.join(", ")}.\n`];
+    lines.push(`| | ${headers.map(escape).join(" | ")} |`, `|---|${headers.map(() => "---").join("|")}|`);
+    for (const row of COMPARE_ROWS) {
+      lines.push(`| **${row.label}** | ${columns.map((col) => escape(col[row.key]!.value)).join(" | ")} |`);
     }
 
-    // Auto-detect K-number or PMA number passed as query — redirect with helpful message
-    if (!product_code && query) {
-      const trimmed = query.trim();
-      if (K_NUMBER_RE.test(trimmed)) {
-        return { content: [{ type: "text" as const, text: `"${trimmed}" is a 510(k) number. Use \`search_510k\` with \`k_number: "${trimmed.toUpperCase()}"\` to look it up, or use \`classify_device\` with a device name query.` }] };
+    lines.push("", "### Sources");
+    for (const [i, item] of items.entries()) {
+      lines.push(`\n**${headers[i]}**`);
+      if (item.submission) {
+        lines.push(`- Resolved from ${item.submission.number} (${item.submission.applicant ?? "N/A"}, ${item.submission.decision_date ?? "N/A"}): ${item.submission.source_url}`);
       }
-      if (PMA_NUMBER_RE.test(trimmed)) {
-        return { content: [{ type: "text" as const, text: `"${trimmed}" is a PMA number. Use \`search_pma\` with \`pma_number: "${trimmed.toUpperCase()}"\` to look it up, or use \`classify_device\` with a device name query.` }] };
+      // Rows answered by the same query and page are cited once
+      const citations = new Map<string, string[]>();
+      for (const row of COMPARE_ROWS) {
+        const cell = columns[i]![row.key]!;
+        const citation = `Query: ${cell.query_url ?? "N/A"}${cell.source_url ? ` | FDA source: ${cell.source_url}` : ""}`;
+        citations.set(citation, [...(citations.get(citation) ?? []), row.label]);
       }
-      // Strip special characters that break openFDA search (periods, slashes, etc.)
-      query = query.replace(/[.\/\\@#$%^&*(){}[\]|<>~`]/g, " ").replace(/\s+/g, " ").trim();
+      for (const [citation, labels] of citations) lines.push(`- ${labels.join(", ")}: ${citation}`);
     }
 
-    // Direct product code lookup
-    if (product_code) {
-      const err = validateProductCode(product_code);
-      if (err) return { content: [{ type: "text" as const, text: `Validation error: ${err}` }] };
-
-      const searchParts = [`product_code:${product_code.toUpperCase()}`];
-      if (device_class) searchParts.push(`device_class:${device_class}`);
+    lines.push("", MAUDE_CAVEAT.trim(), "", formatMultiQueryFooter(lastUpdated));
 
-      const { data, url } = await queryOpenFDA("classification", searchParts, { limit: resultLimit });
-      if (data.error) return { content: [{ type: "text" as const, text: formatError(data, url) }] };
-      if (!data.results?.length) {
-        return {
-          content: [{
-            type: "text" as const,
-            text: `No classification found for product code ${product_code.toUpperCase()}. Verify at: ${linkClassification(product_code.toUpperCase())}\n\n${formatFooter(url, data.meta)}`,
-          }],
-        };
-      }
+    const output: z.infer<typeof CompareOutputSchema> = {
+      items,
+      rows: COMPARE_ROWS.map((row) => ({ ...row, cells: columns.map((col) => col[row.key]!) })),
+      last_updated: lastUpdated,
+      notes: formatCallStats(),
+      caveat: MAUDE_CAVEAT.trim(),
+      disclaimer: DISCLAIMER,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
 
-      return { content: [{ type: "text" as const, text: formatClassificationResults(data, url) }] };
-    }
-
-    // Multi-pass query search with synonym expansion and combinatorial broadening
-    const originalTerms = query!.trim().split(/\s+/);
-    const expandedTerms = expandSynonyms(originalTerms);
-    const hasExpansion = expandedTerms.join(" ") !== originalTerms.join(" ");
-
-    // Build candidate term lists: expanded first (if different), then original
-    const termSets: { terms: string[]; label: string }[] = [];
-    if (hasExpansion) termSets.push({ terms: expandedTerms, label: "expanded" });
-    termSets.push({ terms: originalTerms, label: "original" });
-
-    // Track best weak result in case no strong match is found
-    let bestWeak: { data: OpenFDAResponse; url: string; score: number } | null = null;
-    const RELEVANCE_THRESHOLD = 0.4; // at least 40% of original terms should be covered (directly or via synonyms)
-
-    // Filler words that add noise to FDA classification searches
-    const FILLER_WORDS = new Set([
-      "a", "an", "the", "for", "of", "in", "on", "to", "and", "or", "is", "it",
-      "what", "how", "which", "my", "with", "from", "that", "this", "are", "can",
-      "fda", "class", "device", "medical", "need", "does", "use", "used",
-      "health", "care", "system", "product", "new", "based", "using",
-    ]);
-
-    const MAX_API_CALLS = 30; // Cap total API calls to avoid rate limits
-    let apiCalls = 0;
-
-    for (const { terms } of termSets) {
-      // Filter out filler words for combo generation
-      const meaningful = terms.filter((t) => !FILLER_WORDS.has(t.toLowerCase()) && t.length > 1);
-      const termsToUse = meaningful.length >= 2 ? meaningful : terms;
-
-      // Prioritize: full length first, then 2-3 term combos (sweet spot for FDA names),
-      // then longer combos. This ensures we reach specific medical pairs quickly.
-      const allCombos = generateCombinations(termsToUse);
-      const fullLength = allCombos.filter((c) => c.length === termsToUse.length);
-      const shortCombos = allCombos.filter((c) => c.length >= 2 && c.length <= 3 && c.length < termsToUse.length);
-      const mediumCombos = allCombos.filter((c) => c.length > 3 && c.length < termsToUse.length);
-      // Only allow single-term searches for non-filler words
-      const singles = allCombos.filter((c) => c.length === 1 && !FILLER_WORDS.has(c[0].toLowerCase()));
-      const combos = [...fullLength, ...shortCombos, ...mediumCombos, ...singles];
-
-      for (const combo of combos) {
-        if (apiCalls >= MAX_API_CALLS) break;
+// ─── Tool 11: company_profile ───────────────────────────────────────────────
 
-        // For each combination, try both device_name and definition
-        const fields = ["device_name", "definition"] as const;
+const PROFILE_TOP_PRODUCT_CODES = 10;
 
-        for (const field of fields) {
-          if (apiCalls >= MAX_API_CALLS) break;
-          apiCalls++;
+const ProfileSectionSchema = z.object({
+  total: z.number(),
+  query_urls: z.array(z.string()).describe("openFDA API URLs behind this section (API key redacted)"),
+});
 
-          const searchParts = [buildSearchTerms(field, combo.join(" "))];
-          if (device_class) searchParts.push(`device_class:${device_class}`);
+const CompanyProfileOutputSchema = z.object({
+  company: z.string(),
+  premarket_510k: ProfileSectionSchema.extend({
+    by_year: z.array(CountRowSchema),
+    by_product_code: z.array(CountRowSchema),
+    recent: z.array(PremarketNotificationSchema),
+  }),
+  pma: ProfileSectionSchema.extend({
+    by_year: z.array(CountRowSchema),
+    by_product_code: z.array(CountRowSchema),
+    recent: z.array(PMARecordSchema),
+  }),
+  recalls: ProfileSectionSchema.extend({
+    by_status: z.array(CountRowSchema),
+    recent: z.array(RecallRecordSchema),
+  }),
+  adverse_events: ProfileSectionSchema.extend({
+    by_event_type: z.array(CountRowSchema),
+    caveat: z.string().describe("Mandatory MAUDE caveat — convey it with this section"),
+  }),
+  last_updated: z.record(z.string(), nullableString).describe("openFDA meta.last_updated per endpoint"),
+  notes: z.array(z.string()),
+  disclaimer: z.string(),
+});
 
-          const { data, url } = await queryOpenFDA("classification", searchParts, { limit: resultLimit });
+type CountRow = z.infer<typeof CountRowSchema>;
+
+// Runs the queries for one profile section, collecting URLs and last_updated.
+// NOT_FOUND means the firm has no records there; other errors are thrown.
+function createProfileQueries(lastUpdated: Record<string, string | null>) {
+  async function run(endpoint: string, parts: string[], options: Parameters<typeof queryOpenFDA>[2], urls: string[]) {
+    const { data, url } = await queryOpenFDA(endpoint, parts, options);
+    urls.push(redactedUrl(url));
+    if (data.meta?.last_updated) lastUpdated[endpoint] = data.meta.last_updated;
+    if (data.error && data.error.code !== "NOT_FOUND") throw new Error(formatError(data, url));
+    return data;
+  }
+  return {
+    async records(endpoint: string, parts: string[], limit: number, sort: string, urls: string[]) {
+      const data = await run(endpoint, parts, { limit, sort }, urls);
+      return { total: data.meta?.results?.total ?? 0, results: data.results ?? [] };
+    },
+    async terms(endpoint: string, parts: string[], path: string, limit: number, urls: string[]): Promise<CountRow[]> {
+      const data = await run(endpoint, parts, { count: path, limit }, urls);
+      return (data.results ?? []).map((r) => ({ value: String(r.term ?? ""), count: Number(r.count ?? 0) }));
+    },
+    async years(endpoint: string, parts: string[], path: string, urls: string[]): Promise<CountRow[]> {
+      const data = await run(endpoint, parts, { count: path, limit: 1000 }, urls);
+      return bucketDates(data.results ?? [], "year");
+    },
+  };
+}
 
-          if (!data.error && data.results && data.results.length > 0) {
-            const score = scoreResults(data.results, originalTerms);
+function formatCountRows(rows: CountRow[]): string {
+  return rows.length ? rows.map((r) => `${r.value} (${r.count.toLocaleString()})`).join(", ") : "none";
+}
 
-            // Full-length combo or strong relevance: return immediately
-            if (combo.length >= termsToUse.length || score >= RELEVANCE_THRESHOLD) {
-              return { content: [{ type: "text" as const, text: formatClassificationResults(data, url) }] };
-            }
+server.registerTool(
+  "company_profile",
+  {
+    description: `Due-diligence profile of one company across openFDA: 510(k) and PMA counts by year and product code with the most recent submissions, recalls by status (open/completed/terminated) with the most recent ones, and MAUDE event-type totals. Matches the name as a phrase against applicant (510k, PMA), recalling_firm (recalls) and manufacturer (MAUDE) — company names vary in FDA data, so try partial names. Each section lists its own query URLs. MAUDE totals are unverified reports — always convey the caveat attached to that section.`,
+    inputSchema: {
+      company: z.string().min(2).describe("Company name (partial match, e.g. 'Medtronic')"),
+      recent_limit: z.number().min(1).max(20).optional().describe("Recent submissions and recalls to list per section (default 5)"),
+    },
+    outputSchema: CompanyProfileOutputSchema,
+  },
+  trackCall(async ({ company, recent_limit }) => {
+    const name = company.trim();
+    const recent = recent_limit ?? 5;
+    const lastUpdated: Record<string, string | null> = {};
+    const q = createProfileQueries(lastUpdated);
+    const sections: string[] = [`# Company profile: ${name}`];
 
-            // Weak match: save if it's the best so far
-            if (!bestWeak || score > bestWeak.score) {
-              bestWeak = { data, url, score };
-            }
-          }
+    try {
+      // 510(k)
+      const kParts = searchFilters("510k", { applicant: name });
+      const kUrls: string[] = [];
+      const kRecent = await q.records("510k", kParts, recent, "decision_date:desc", kUrls);
+      const kByYear = kRecent.total ? await q.years("510k", kParts, "decision_date", kUrls) : [];
+      const kByCode = kRecent.total ? await q.terms("510k", kParts, "product_code", PROFILE_TOP_PRODUCT_CODES, kUrls) : [];
+      const kRecords = kRecent.results.map(toPremarketNotification);
+      const kLines = [`## 510(k) — ${kRecent.total.toLocaleString()} decision(s)`];
+      if (kRecent.total) {
+        kLines.push(`By year: ${formatCountRows(kByYear)}`, `Top product codes: ${formatCountRows(kByCode)}`, "Most recent:");
+        for (const k of kRecords) {
+          kLines.push(`- ${k.k_number} — ${k.device_name ?? "N/A"} (${k.product_code ?? "N/A"}, ${k.decision_code ?? "N/A"} ${k.decision_date ?? "N/A"}) ${k.source_url ?? ""}`.trimEnd());
+        }
+      }
+      kLines.push(...kUrls.map((u) => `Query: ${u}`));
+      sections.push(kLines.join("\n"));
+
+      // PMA
+      const pParts = searchFilters("pma", { applicant: name });
+      const pUrls: string[] = [];
+      const pRecent = await q.records("pma", pParts, recent, "decision_date:desc", pUrls);
+      const pByYear = pRecent.total ? await q.years("pma", pParts, "decision_date", pUrls) : [];
+      const pByCode = pRecent.total ? await q.terms("pma", pParts, "product_code", PROFILE_TOP_PRODUCT_CODES, pUrls) : [];
+      const pRecords = pRecent.results.map(toPMARecord);
+      const pLines = [`## PMA — ${pRecent.total.toLocaleString()} record(s) incl. supplements`];
+      if (pRecent.total) {
+        pLines.push(`By year: ${formatCountRows(pByYear)}`, `Top product codes: ${formatCountRows(pByCode)}`, "Most recent:");
+        for (const p of pRecords) {
+          const number = p.supplement_number ? `${p.pma_number}/${p.supplement_number}` : p.pma_number;
+          pLines.push(`- ${number} — ${p.trade_name ?? p.generic_name ?? "N/A"} (${p.product_code ?? "N/A"}, ${p.decision_date ?? "N/A"}) ${p.source_url ?? ""}`.trimEnd());
+        }
+      }
+      pLines.push(...pUrls.map((u) => `Query: ${u}`));
+      sections.push(pLines.join("\n"));
+
+      // Recalls
+      const rParts = searchFilters("recall", { recalling_firm: name });
+      const rUrls: string[] = [];
+      const rRecent = await q.records("recall", rParts, recent, "event_date_initiated:desc", rUrls);
+      const rByStatus = rRecent.total ? await q.terms("recall", rParts, "recall_status.exact", 10, rUrls) : [];
+      const rRecords = rRecent.results.map(toRecallRecord);
+      const rLines = [`## Recalls — ${rRecent.total.toLocaleString()} product recall(s)`];
+      if (rRecent.total) {
+        rLines.push(`By status: ${formatCountRows(rByStatus)}`, "Most recent:");
+        for (const r of rRecords) {
+          rLines.push(`- ${r.recall_number ?? r.cfres_id} — ${r.product_description?.slice(0, 100) ?? "N/A"} (${r.recall_status ?? "N/A"}, initiated ${r.event_date_initiated ?? "N/A"}) ${r.source_url ?? ""}`.trimEnd());
         }
       }
+      rLines.push(...rUrls.map((u) => `Query: ${u}`));
+      sections.push(rLines.join("\n"));
+
+      // MAUDE — the caveat travels with this section
+      const eParts = searchFilters("event", { manufacturer: name });
+      const eUrls: string[] = [];
+      const eByType = await q.terms("event", eParts, "event_type.exact", 10, eUrls);
+      const eTotal = eByType.reduce((sum, r) => sum + r.count, 0);
+      const eLines = [`## Adverse events (MAUDE) — ${eTotal.toLocaleString()} report(s)`, MAUDE_CAVEAT.trim()];
+      if (eTotal) eLines.push(`By event type: ${formatCountRows(eByType)}`);
+      eLines.push(...eUrls.map((u) => `Query: ${u}`));
+      sections.push(eLines.join("\n"));
+
+      sections.push(formatMultiQueryFooter(lastUpdated));
+      const output: z.infer<typeof CompanyProfileOutputSchema> = {
+        company: name,
+        premarket_510k: { total: kRecent.total, query_urls: kUrls, by_year: kByYear, by_product_code: kByCode, recent: kRecords },
+        pma: { total: pRecent.total, query_urls: pUrls, by_year: pByYear, by_product_code: pByCode, recent: pRecords },
+        recalls: { total: rRecent.total, query_urls: rUrls, by_status: rByStatus, recent: rRecords },
+        adverse_events: { total: eTotal, query_urls: eUrls, by_event_type: eByType, caveat: MAUDE_CAVEAT.trim() },
+        last_updated: lastUpdated,
+        notes: formatCallStats(),
+        disclaimer: DISCLAIMER,
+      };
+      return structuredResult(sections.join("\n\n"), output);
+    } catch (err) {
+      return errorResult(err instanceof Error ? err.message : String(err));
     }
+  })
+);
 
-    // If weak match has decent relevance, return it. Otherwise try the bridge first —
-    // the bridge may find better results via 510(k) device names.
-    const WEAK_RETURN_THRESHOLD = 0.3; // below this, prefer bridge over weak classification match
-    if (bestWeak && bestWeak.score >= WEAK_RETURN_THRESHOLD) {
-      return { content: [{ type: "text" as const, text: formatClassificationResults(bestWeak.data, bestWeak.url) }] };
-    }
+// ─── Tool 12: extract_predicates ────────────────────────────────────────────
 
-    // Pass 3: 510(k) bridge — search 510(k) device names, extract product codes, look up classifications
-    // Many AI/SaMD devices are classified under generic codes (e.g., MYN "Analyzer, Medical Image")
-    // but have specific names in 510(k) submissions. This bridges the gap.
-    const bridgeResult = await bridgeVia510k(query!, originalTerms, expandedTerms, device_class, resultLimit);
-    if (bridgeResult) {
-      return { content: [{ type: "text" as const, text: bridgeResult }] };
-    }
+const MAX_PREDICATE_DEPTH = 3;
+const MAX_PREDICATE_NODES = 50;
+// How far from the word "predicate" a number may sit and still count as one
+const PREDICATE_CONTEXT_CHARS = 400;
 
-    // Fall back to weak classification match if bridge also failed
-    if (bestWeak) {
-      return { content: [{ type: "text" as const, text: formatClassificationResults(bestWeak.data, bestWeak.url) }] };
-    }
+interface CitedSubmission {
+  number: string;
+  role: "predicate" | "cited";
+}
 
-    // Nothing found anywhere — give actionable suggestions
-    const suggestions: string[] = [];
-    const lowerQuery = query!.toLowerCase();
+// Submission numbers cited in a summary. Numbers near the word "predicate" are
+// predicates; when none are, every cited number is kept as "cited".
+function extractCitedSubmissions(text: string, self: string): CitedSubmission[] {
+  const predicateAt = [...text.matchAll(/predicate/gi)].map((m) => m.index!);
+  const found = new Map<string, CitedSubmission["role"]>();
+  for (const m of text.matchAll(/\b(K|DEN|P)\s?-?\s?(\d{6})\b/g)) {
+    const number = `${m[1]}${m[2]}`;
+    if (number === self) continue;
+    const nearPredicate = predicateAt.some((at) => Math.abs(at - m.index!) <= PREDICATE_CONTEXT_CHARS);
+    if (nearPredicate || !found.has(number)) found.set(number, nearPredicate ? "predicate" : found.get(number) ?? "cited");
+  }
+  return [...found.entries()].map(([number, role]) => ({ number, role }));
+}
 
-    // Detect if query is about AI/SaMD (common miss category)
-    const aiTerms = ["ai", "ml", "algorithm", "machine learning", "deep learning", "artificial intelligence", "samd", "software"];
-    const isAIQuery = originalTerms.some((t) => aiTerms.includes(t.toLowerCase()));
+const PredicateNodeSchema = z.object({
+  number: z.string(),
+  parent: nullableString,
+  depth: z.number(),
+  role: z.enum(["root", "predicate", "cited"]),
+  device_name: nullableString,
+  applicant: nullableString,
+  decision_date: nullableString,
+  product_code: nullableString,
+  source_url: nullableString,
+  document: z.object({
+    status: z.enum(["extracted", "no_text", "not_found", "error", "not_fetched"]),
+    location: nullableString,
+  }),
+});
 
-    if (isAIQuery) {
-      suggestions.push(
-        `Many AI/ML-enabled devices are classified under generic product codes:`,
-        `  - **QIH** — Automated Radiological Image Processing Software`,
-        `  - **QDQ** — Radiological Computer Assisted Detection/Diagnosis Software`,
-        `  - **MYN** — Analyzer, Medical Image`,
-        `  - **QBS** — Radiological CAD Software For Fracture`,
-        `  - **QNP** — Gastrointestinal Lesion Software Detection System`,
-        `  - **QJU** — Image Acquisition/Optimization Guided By AI`,
-        ``,
-        `Try: \`classify_device\` with one of these product codes, or \`search_510k\` with applicant/device_name to find specific cleared products.`,
-      );
-    } else {
-      suggestions.push(
-        `Suggestions:`,
-        `  - Try shorter or broader medical terms (FDA uses formal names like "Oximeter, Pulse" not "pulse oximeter")`,
-        `  - Use \`search_510k\` with \`device_name\` or \`applicant\` to find specific cleared devices`,
-        `  - If you know the company, search by applicant name in \`search_510k\``,
-      );
+const PredicateTreeOutputSchema = z.object({
+  root: z.string(),
+  depth: z.number(),
+  document_source: z.string().describe("Where summaries were read from"),
+  nodes: z.array(PredicateNodeSchema),
+  truncated: z.boolean().describe("True when the node limit stopped the walk"),
+  last_updated: z.record(z.string(), nullableString),
+  notes: z.array(z.string()),
+  disclaimer: z.string(),
+});
+
+type PredicateNode = z.infer<typeof PredicateNodeSchema>;
+
+async function enrichPredicateNode(node: PredicateNode, lastUpdated: Record<string, string | null>): Promise<void> {
+  const isPMA = PMA_NUMBER_RE.test(node.number);
+  const endpoint = isPMA ? "pma" : "510k";
+  const { data } = await queryOpenFDA(endpoint, [`${isPMA ? "pma_number" : "k_number"}:${node.number}`], { limit: 1, sort: isPMA ? "decision_date:asc" : undefined });
+  if (data.meta?.last_updated) lastUpdated[endpoint] = data.meta.last_updated;
+  const r = data.results?.[0];
+  node.source_url = isPMA ? linkPMA(node.number) : link510kRecord(node.number);
+  if (!r) return;
+  node.device_name = asString(r.device_name) ?? asString(r.trade_name);
+  node.applicant = asString(r.applicant);
+  node.decision_date = normalizeDateResponse(r.decision_date);
+  node.product_code = asString(r.product_code);
+}
+
+server.registerTool(
+  "extract_predicates",
+  {
+    description: `Build a 510(k) predicate tree: reads the 510(k) summary PDF for a K number, extracts the K/DEN/P numbers it cites, and walks predicates recursively up to a depth limit. Each node is enriched from 510(k)/PMA data (device, applicant, decision date, product code). Numbers near the word "predicate" are marked as predicates; others as cited. Scanned summaries have no text layer — those nodes are reported, not guessed. Summaries come from FDA AccessData, or from a local PDF directory when pdf_dir is configured.`,
+    inputSchema: {
+      k_number: z.string().describe("510(k) or De Novo number to start from (e.g. 'K240001', 'DEN180044')"),
+      depth: z.number().int().min(1).max(MAX_PREDICATE_DEPTH).optional().describe("Predicate generations to walk (default 1)"),
+      max_nodes: z.number().int().min(1).max(MAX_PREDICATE_NODES).optional().describe("Stop after this many nodes (default 25)"),
+      include_cited: z.boolean().optional().describe("Also walk numbers not near the word 'predicate' (default false)"),
+    },
+    outputSchema: PredicateTreeOutputSchema,
+  },
+  trackCall(async ({ k_number, depth, max_nodes, include_cited }) => {
+    const root = stripDashes(k_number.trim().toUpperCase());
+    if (!K_NUMBER_RE.test(root) && !DEN_NUMBER_RE.test(root)) {
+      return errorResult(`Validation error: "${k_number}" is not a 510(k) or De Novo number. Format: K followed by 6-7 digits (e.g., K032161) or DEN followed by 6 digits.`);
+    }
+    const maxDepth = depth ?? 1;
+    const maxNodes = max_nodes ?? 25;
+    const lastUpdated: Record<string, string | null> = {};
+
+    const blankNode = (number: string, parent: string | null, nodeDepth: number, role: PredicateNode["role"]): PredicateNode => ({
+      number, parent, depth: nodeDepth, role,
+      device_name: null, applicant: null, decision_date: null, product_code: null, source_url: null,
+      document: { status: "not_fetched", location: null },
+    });
+    const nodes: PredicateNode[] = [blankNode(root, null, 0, "root")];
+    const seen = new Set([root]);
+    let truncated = false;
+
+    // Breadth-first, so the node limit trims the deepest generation first
+    for (let i = 0; i < nodes.length; i++) {
+      const node = nodes[i]!;
+      await enrichPredicateNode(node, lastUpdated);
+      if (node.depth >= maxDepth || PMA_NUMBER_RE.test(node.number)) continue;
+
+      let doc: SummaryDocument | null;
+      try {
+        doc = await documentFetcher.fetch(node.number);
+      } catch {
+        node.document = { status: "error", location: null };
+        continue;
+      }
+      if (!doc) {
+        node.document = { status: "not_found", location: summaryUrl(node.number) };
+        continue;
+      }
+      const cited = extractCitedSubmissions(doc.text, node.number);
+      node.document = { status: doc.text.trim() ? "extracted" : "no_text", location: doc.location };
+
+      for (const c of cited) {
+        if (c.role === "cited" && !include_cited && cited.some((x) => x.role === "predicate")) continue;
+        if (seen.has(c.number)) continue;
+        if (nodes.length >= maxNodes) {
+          truncated = true;
+          break;
+        }
+        seen.add(c.number);
+        nodes.push(blankNode(c.number, node.number, node.depth + 1, c.role));
+      }
     }
 
-    const fallbackUrl = `${BASE_URL}/classification.json?search=${buildSearchTerms("device_name", query!)}&limit=1`;
-    return {
-      content: [{
-        type: "text" as const,
-        text: `No classification results found for "${query}".\n\n${suggestions.join("\n")}\n\n${formatFooter(fallbackUrl)}`,
-      }],
+    const STATUS_TEXT: Record<PredicateNode["document"]["status"], string> = {
+      extracted: "summary read",
+      no_text: "summary has no text layer (likely scanned) — predicates unknown",
+      not_found: "no summary found",
+      error: "summary could not be fetched",
+      not_fetched: "",
     };
-  }
+    const lines: string[] = [`Predicate tree for ${root} (depth ${maxDepth}, ${nodes.length} node(s), summaries from ${documentFetcher.name})\n`];
+    const render = (node: PredicateNode, indent: string) => {
+      const role = node.role === "root" ? "" : ` [${node.role}]`;
+      const details = [node.applicant, node.product_code, node.decision_date ? `decided ${node.decision_date}` : null].filter(Boolean).join(", ");
+      lines.push(`${indent}- **${node.number}**${role} — ${node.device_name ?? "not found in openFDA"}${details ? ` (${details})` : ""}`);
+      if (node.source_url) lines.push(`${indent}  FDA source: ${node.source_url}`);
+      if (node.document.status !== "not_fetched") {
+        lines.push(`${indent}  Summary: ${STATUS_TEXT[node.document.status]}${node.document.location ? ` — ${node.document.location}` : ""}`);
+      }
+      for (const child of nodes.filter((n) => n.parent === node.number)) render(child, indent + "  ");
+    };
+    render(nodes[0]!, "");
+    if (truncated) lines.push(`\nStopped at ${maxNodes} nodes — raise max_nodes or lower depth to see the rest.`);
+    lines.push(
+      "",
+      "Predicates are read from summary text and may include reference devices or miss numbers split across lines. Confirm against the summary itself.",
+      "",
+      formatMultiQueryFooter(lastUpdated),
+    );
+
+    const output: z.infer<typeof PredicateTreeOutputSchema> = {
+      root,
+      depth: maxDepth,
+      document_source: documentFetcher.name,
+      nodes,
+      truncated,
+      last_updated: lastUpdated,
+      notes: formatCallStats(),
+      disclaimer: DISCLAIMER,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
 );
 
-// 510(k) bridge: when classification search fails, search 510(k) device names
-// to discover product codes, then look up those codes in classification.
-async function bridgeVia510k(
-  query: string,
-  originalTerms: string[],
-  expandedTerms: string[],
-  device_class: string | undefined,
-  resultLimit: number,
-): Promise<string | null> {
-  // Try both expanded and original terms against 510(k) device_name
-  const termSets = [expandedTerms, originalTerms];
-  const seen510k = new Set<string>();
+// ─── Tool 13: regulatory_pathway ────────────────────────────────────────────
 
-  // Generic terms that are too broad to search alone in 510(k) device names
-  const GENERIC_510K_TERMS = new Set([
-    "artificial", "intelligence", "machine", "learning", "software", "device",
-    "system", "detection", "screening", "diagnosis", "diagnostic", "analysis",
-    "monitor", "automated", "computer", "digital", "algorithm", "image",
-    "processing", "aided", "based", "clinical", "decision", "support",
-  ]);
+const PATHWAY_PRECEDENTS = 5;
 
-  for (const terms of termSets) {
-    // Separate medical-specific terms from generic ones for smarter combo generation
-    const medicalTerms = terms.filter((t) => !GENERIC_510K_TERMS.has(t.toLowerCase()));
-    const combos = generateCombinations(terms);
-    // Try combos from longest down to pairs; only allow single-term searches for
-    // specific enough medical terms (>= 5 chars to avoid "low", "GI", etc.)
-    const pairAndUp = combos.filter((c) => c.length >= 2).slice(0, 8);
-    const medicalSingles = medicalTerms.filter((t) => t.length >= 5).map((t) => [t]);
-    const topCombos = [...pairAndUp, ...medicalSingles];
+const PATHWAY_LABELS = {
+  exempt: "Exempt from premarket notification",
+  "510k": "510(k) premarket notification",
+  de_novo: "De Novo classification request",
+  pma: "Premarket approval (PMA)",
+  contact_fda: "Contact FDA — no standard pathway listed",
+} as const;
 
-    for (const combo of topCombos) {
-      const searchExpr = buildSearchTerms("device_name", combo.join(" "));
-      const key = combo.join("+");
-      if (seen510k.has(key)) continue;
-      seen510k.add(key);
+type Pathway = keyof typeof PATHWAY_LABELS;
 
-      const { data } = await queryOpenFDA("510k", [searchExpr], { limit: 20, sort: "decision_date:desc" });
+const EvidenceSchema = z.object({
+  finding: z.string(),
+  source_url: nullableString,
+  query_url: nullableString,
+});
 
-      if (!data.error && data.results && data.results.length > 0) {
-        // Extract unique product codes from 510(k) results
-        const productCodes = new Map<string, { code: string; deviceNames: string[]; count: number }>();
-        for (const r of data.results) {
-          const pc = (r.product_code as string)?.toUpperCase();
-          if (!pc || !PRODUCT_CODE_RE.test(pc)) continue;
-          const existing = productCodes.get(pc);
-          if (existing) {
-            existing.count++;
-            const name = r.device_name as string;
-            if (name && !existing.deviceNames.includes(name)) existing.deviceNames.push(name);
-          } else {
-            productCodes.set(pc, { code: pc, deviceNames: [r.device_name as string].filter(Boolean), count: 1 });
-          }
-        }
+const PrecedentSchema = z.object({
+  number: z.string(),
+  device_name: nullableString,
+  applicant: nullableString,
+  decision_date: nullableString,
+  review_days: z.number().nullable(),
+  source_url: z.string(),
+});
 
-        if (productCodes.size === 0) continue;
+const PathwayOutputSchema = z.object({
+  pathway: z.enum(Object.keys(PATHWAY_LABELS) as [Pathway, ...Pathway[]]),
+  pathway_label: z.string(),
+  resolved_via: z.enum(["product_code", "classification_search", "510k_bridge", "not_found"]),
+  classification: ClassificationRecordSchema.nullable(),
+  alternatives: z.array(ClassificationRecordSchema).describe("Other product codes the query matched"),
+  evidence: z.array(EvidenceSchema),
+  precedents: z.array(PrecedentSchema),
+  median_review_days: z.number().nullable().describe("Median over the listed precedents"),
+  last_updated: z.record(z.string(), nullableString),
+  notes: z.array(z.string()),
+  disclaimer: z.string(),
+});
 
-        // Look up each unique product code in classification
-        const classificationResults: Record<string, unknown>[] = [];
-        const classUrls: string[] = [];
-        for (const [pc] of productCodes) {
-          const searchParts = [`product_code:${pc}`];
-          if (device_class) searchParts.push(`device_class:${device_class}`);
-          const { data: classData, url: classUrl } = await queryOpenFDA("classification", searchParts, { limit: 1 });
-          if (!classData.error && classData.results?.length) {
-            classificationResults.push(...classData.results);
-            classUrls.push(classUrl);
-          }
-        }
+type Evidence = z.infer<typeof EvidenceSchema>;
+type Precedent = z.infer<typeof PrecedentSchema>;
+
+// Class and submission type decide the pathway. Class III devices still on the
+// 510(k) track are preamendment types awaiting a PMA call.
+function decidePathway(c: ClassificationRecord): { pathway: Pathway; reason: string } {
+  const type = c.submission_type_id;
+  const cls = c.device_class;
+  if (type === "4") return { pathway: "exempt", reason: `submission type 4 (510(k) exempt) for a Class ${cls} device` };
+  if (type === "2" || (cls === "3" && type !== "1")) return { pathway: "pma", reason: `Class ${cls}, submission type ${type ?? "N/A"} (${SUBMISSION_TYPES[type ?? ""] ?? "not listed"})` };
+  if (type === "1") {
+    return { pathway: "510k", reason: cls === "3" ? "Class 3 with submission type 1 — a preamendment device type still cleared by 510(k)" : `Class ${cls}, submission type 1 (510(k) required)` };
+  }
+  return { pathway: "contact_fda", reason: `submission type ${type ?? "N/A"} (${SUBMISSION_TYPES[type ?? ""] ?? "not listed"})` };
+}
 
-        if (classificationResults.length === 0) continue;
+async function pathwayPrecedents(
+  pathway: Pathway,
+  productCode: string,
+  lastUpdated: Record<string, string | null>,
+): Promise<{ precedents: Precedent[]; total: number; url: string | null; error: string | null }> {
+  const failure = (data: OpenFDAResponse) => (data.error && data.error.code !== "NOT_FOUND" ? data.error.message ?? "unknown error" : null);
+  if (pathway === "pma") {
+    const { data, url } = await queryOpenFDA("pma", [`product_code:${productCode}`], { limit: 100, sort: "decision_date:desc" });
+    if (data.meta?.last_updated) lastUpdated.pma = data.meta.last_updated;
+    if (failure(data)) return { precedents: [], total: 0, url, error: failure(data) };
+    // Supplements outnumber originals; only original approvals are precedent
+    const originals = (data.results ?? []).filter((r) => !asString(r.supplement_number));
+    const precedents = originals.slice(0, PATHWAY_PRECEDENTS).map((r) => {
+      const received = normalizeDateResponse(r.date_received);
+      const decided = normalizeDateResponse(r.decision_date);
+      const number = String(r.pma_number);
+      return {
+        number,
+        device_name: asString(r.trade_name) ?? asString(r.generic_name),
+        applicant: asString(r.applicant),
+        decision_date: decided,
+        review_days: received && decided ? daysBetween(received, decided) : null,
+        source_url: linkPMA(number),
+      };
+    });
+    return { precedents, total: originals.length, url, error: null };
+  }
 
-        // Build response showing classification + the 510(k) devices that led to it
-        const lines: string[] = [
-          `No direct classification match for "${query}". Found ${classificationResults.length} classification(s) via 510(k) device name search:\n`,
-        ];
+  const { data, url } = await queryOpenFDA("510k", [`product_code:${productCode}`, "decision_code:SESE"], { limit: PATHWAY_PRECEDENTS, sort: "decision_date:desc" });
+  if (data.meta?.last_updated) lastUpdated["510k"] = data.meta.last_updated;
+  if (failure(data)) return { precedents: [], total: 0, url, error: failure(data) };
+  const precedents = (data.results ?? []).map(toPremarketNotification).map((k) => ({
+    number: k.k_number ?? "N/A",
+    device_name: k.device_name,
+    applicant: k.applicant,
+    decision_date: k.decision_date,
+    review_days: k.days_to_decision,
+    source_url: k.source_url ?? link510kRecord(k.k_number ?? ""),
+  }));
+  return { precedents, total: data.meta?.results?.total ?? 0, url, error: null };
+}
 
-        for (const r of classificationResults) {
-          const pc = r.product_code as string;
-          const regNum = r.regulation_number as string;
-          const pcInfo = productCodes.get(pc);
-          lines.push(`**${pc}** — ${r.device_name}`);
-          lines.push(`  Class: ${r.device_class} | Regulation: ${regNum}`);
-          lines.push(`  Panel: ${r.medical_specialty} (${r.medical_specialty_description})`);
-          if (r.definition) lines.push(`  Definition: ${(r.definition as string).slice(0, 200)}${(r.definition as string).length > 200 ? "..." : ""}`);
-          lines.push(`  Implant: ${r.implant_flag} | Life-sustaining: ${r.life_sustain_support_flag} | GMP exempt: ${r.gmp_exempt_flag}`);
-          lines.push(`  Third-party eligible: ${r.third_party_flag} | Submission type: ${r.submission_type_id}`);
-          lines.push(`  FDA source: ${linkClassification(pc)}`);
-          if (regNum) lines.push(`  eCFR: ${linkECFR(regNum)}`);
-          if (pcInfo) {
-            lines.push(`  _Found via 510(k) devices: ${pcInfo.deviceNames.slice(0, 3).join("; ")}${pcInfo.deviceNames.length > 3 ? ` (+${pcInfo.deviceNames.length - 3} more)` : ""}_`);
-          }
-          lines.push("");
-        }
+server.registerTool(
+  "regulatory_pathway",
+  {
+    description: `Screen the likely FDA premarket pathway — exempt, 510(k), De Novo or PMA — for a product code, or for a device description resolved the same way classify_device does. Lists the evidence: device class and submission type, governing regulation (eCFR link), third-party review eligibility, implant/life-sustaining flags, and recent precedent clearances or approvals with review times. A screening aid, not a regulatory determination — always say so.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      query: z.string().optional().describe("Device description, e.g. 'wearable ECG patch'"),
+    },
+    outputSchema: PathwayOutputSchema,
+  },
+  trackCall(async ({ product_code, query }) => {
+    if (!product_code && !query) return errorResult("Error: Provide either product_code or query.");
+    if (!product_code && query && PRODUCT_CODE_RE.test(query.trim())) product_code = query.trim();
+    if (product_code) {
+      const err = validateProductCode(product_code.toUpperCase());
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
 
-        // Show a few example 510(k)s that matched
-        const exampleDevices = data.results.slice(0, 5);
-        lines.push(`**510(k) matches for "${query}"** (${data.meta?.results?.total ?? data.results.length} total):\n`);
-        for (const r of exampleDevices) {
-          const kn = r.k_number as string;
-          const decisionDate = normalizeDateResponse(r.decision_date as string);
-          lines.push(`- **${kn}** ${r.device_name} — ${r.applicant} (${decisionDate ?? "N/A"}) [${r.product_code}]`);
-        }
-        lines.push("");
+    const lastUpdated: Record<string, string | null> = {};
+    const evidence: Evidence[] = [];
+    let candidates: ClassificationRecord[] = [];
+    let resolvedVia: z.infer<typeof PathwayOutputSchema>["resolved_via"];
+    let searchUrl: string | null = null;
 
-        const bridgeUrl = `${BASE_URL}/510k.json?search=${searchExpr}&limit=20&sort=decision_date:desc`;
-        lines.push(formatFooter(bridgeUrl, data.meta));
-        return lines.join("\n");
+    if (product_code) {
+      const { data, url } = await queryOpenFDA("classification", [`product_code:${product_code.toUpperCase()}`], { limit: 1 });
+      if (data.error && data.error.code !== "NOT_FOUND") return errorResult(formatError(data, url));
+      if (data.meta?.last_updated) lastUpdated.classification = data.meta.last_updated;
+      candidates = (data.results ?? []).map(toClassificationRecord);
+      // An unknown code is more likely a typo than a novel device
+      if (candidates.length === 0) {
+        const pc = product_code.toUpperCase();
+        return errorResult(`Product code ${pc} was not found in the openFDA classification data — check the code, or describe the device with \`query\` (classify_device finds codes from a description). ${linkClassification(pc)}\n\n${formatFooter(url, data.meta)}`);
+      }
+      resolvedVia = "product_code";
+      searchUrl = url;
+    } else {
+      const found = await searchClassificationByQuery(query!, undefined, 5);
+      const searchError = classificationSearchError(found);
+      if (searchError) return errorResult(searchError);
+      if (found.kind === "classification") {
+        candidates = (found.data.results ?? []).map(toClassificationRecord);
+        if (found.data.meta?.last_updated) lastUpdated.classification = found.data.meta.last_updated;
+        resolvedVia = "classification_search";
+        searchUrl = found.url;
+      } else if (found.kind === "bridge") {
+        candidates = found.bridge.output.records;
+        resolvedVia = "510k_bridge";
+        searchUrl = found.bridge.output.source.query_url;
+      } else {
+        resolvedVia = "not_found";
       }
     }
-  }
 
-  return null;
-}
+    const classification = candidates[0] ?? null;
+    let pathway: Pathway;
+    let precedents: Precedent[] = [];
+
+    if (!classification) {
+      // Nothing to compare against: a novel low/moderate-risk device goes De Novo
+      pathway = "de_novo";
+      evidence.push({
+        finding: `No existing classification matched "${query}" (classification search and 510(k) device-name bridge) — without a predicate, a low/moderate-risk device needs De Novo; a high-risk one needs PMA`,
+        source_url: null,
+        query_url: searchUrl ? redactedUrl(searchUrl) : null,
+      });
+    } else {
+      const pc = classification.product_code ?? "";
+      const decision = decidePathway(classification);
+      pathway = decision.pathway;
+      const queryUrl = searchUrl ? redactedUrl(searchUrl) : null;
+
+      const via = resolvedVia === "510k_bridge" ? " (matched via 510(k) device names — check it fits your device)" : resolvedVia === "classification_search" ? ` (best match for "${query}")` : "";
+      evidence.push({ finding: `${pc} — ${classification.device_name ?? "N/A"}${via}`, source_url: classification.source_url, query_url: queryUrl });
+      evidence.push({ finding: `Decided by ${decision.reason}`, source_url: classification.source_url, query_url: queryUrl });
+      if (classification.regulation_number) {
+        evidence.push({ finding: `Governing regulation: 21 CFR ${classification.regulation_number}${pathway === "exempt" ? " — check the exemption limitations in the regulation's .9 section" : ""}`, source_url: classification.ecfr_url, query_url: queryUrl });
+      } else {
+        evidence.push({ finding: "No regulation number — the device type is unclassified", source_url: classification.source_url, query_url: queryUrl });
+      }
+      evidence.push({
+        finding: classification.third_party_flag === "Y"
+          ? "Eligible for 510(k) Third Party Review by an FDA-recognized accredited review organization"
+          : `Not eligible for 510(k) Third Party Review (third_party_flag: ${classification.third_party_flag ?? "N/A"})`,
+        source_url: classification.source_url,
+        query_url: queryUrl,
+      });
+      const risk = [
+        classification.implant_flag === "Y" ? "implant" : null,
+        classification.life_sustain_support_flag === "Y" ? "life-sustaining/supporting" : null,
+      ].filter(Boolean);
+      evidence.push({
+        finding: `${risk.length ? `Flagged ${risk.join(" and ")} — expect more clinical data` : "Not flagged implant or life-sustaining"}; GMP exempt: ${classification.gmp_exempt_flag ?? "N/A"}`,
+        source_url: classification.source_url,
+        query_url: queryUrl,
+      });
+
+      if (pathway !== "contact_fda" && pc) {
+        const found = await pathwayPrecedents(pathway, pc, lastUpdated);
+        precedents = found.precedents;
+        const kind = pathway === "pma" ? "original PMA approval(s) in the latest 100 PMA records" : "substantially equivalent 510(k) decision(s)";
+        const records = pathway === "pma" ? "PMA approvals" : "510(k) clearances";
+        evidence.push({
+          finding: found.error
+            ? `Precedent lookup failed: ${found.error} — ${records} for ${pc} are unknown, not absent`
+            : found.total
+              ? `${found.total.toLocaleString()} ${kind} for ${pc}${pathway === "exempt" ? " (filed despite the exemption, e.g. beyond its limitations)" : ""}`
+              : pathway === "exempt" ? `No 510(k) clearances for ${pc}, consistent with the exemption` : `No precedent ${records} found for ${pc}`,
+          source_url: null,
+          query_url: found.url ? redactedUrl(found.url) : null,
+        });
+      }
+    }
 
-function formatClassificationResults(data: OpenFDAResponse, url: string): string {
-  const total = data.meta?.results?.total ?? 0;
-  const results = data.results ?? [];
-  const lines: string[] = [`Found ${total} classification result(s).\n`];
+    const reviewDays = precedents.map((p) => p.review_days).filter((d): d is number => d !== null);
+    const medianDays = median(reviewDays);
+
+    const lines: string[] = [`## Likely pathway: ${PATHWAY_LABELS[pathway]}`];
+    if (classification) lines.push(`${classification.product_code ?? "N/A"} — ${classification.device_name ?? "N/A"} (Class ${classification.device_class ?? "N/A"})`);
+    lines.push("", "**Evidence**");
+    let shownQuery: string | null = null;
+    for (const e of evidence) {
+      // Consecutive findings from one query cite it once
+      const query = e.query_url && e.query_url !== shownQuery ? `Query: ${e.query_url}` : null;
+      shownQuery = e.query_url ?? shownQuery;
+      const links = [e.source_url, query].filter(Boolean).join(" | ");
+      lines.push(`- ${e.finding}${links ? `\n  ${links}` : ""}`);
+    }
+    if (precedents.length) {
+      lines.push("", `**Recent precedents**${medianDays !== null ? ` — median review time ${medianDays} days` : ""}`);
+      for (const p of precedents) {
+        lines.push(`- ${p.number} — ${p.device_name ?? "N/A"} (${p.applicant ?? "N/A"}, decided ${p.decision_date ?? "N/A"}${p.review_days !== null ? `, ${p.review_days} days` : ""}) ${p.source_url}`);
+      }
+    }
+    const alternatives = candidates.slice(1);
+    if (alternatives.length) {
+      lines.push("", `**Other candidate product codes:** ${alternatives.map((a) => `${a.product_code ?? "N/A"} (${a.device_name ?? "N/A"}, Class ${a.device_class ?? "N/A"})`).join("; ")}`);
+    }
+    lines.push(
+      "",
+      "_Screening aid only — not a regulatory determination. Intended use and technological characteristics decide the pathway; confirm with FDA through a Pre-Submission or a 513(g) request._",
+      "",
+      formatMultiQueryFooter(lastUpdated),
+    );
+
+    const output: z.infer<typeof PathwayOutputSchema> = {
+      pathway,
+      pathway_label: PATHWAY_LABELS[pathway],
+      resolved_via: resolvedVia,
+      classification,
+      alternatives,
+      evidence,
+      precedents,
+      median_review_days: medianDays,
+      last_updated: lastUpdated,
+      notes: formatCallStats(),
+      disclaimer: DISCLAIMER,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
 
-  for (const r of results) {
-    const pc = r.product_code as string;
-    const regNum = r.regulation_number as string;
-    lines.push(`**${pc}** — ${r.device_name}`);
-    lines.push(`  Class: ${r.device_class} | Regulation: ${regNum}`);
-    lines.push(`  Panel: ${r.medical_specialty} (${r.medical_specialty_description})`);
-    if (r.definition) lines.push(`  Definition: ${(r.definition as string).slice(0, 200)}${(r.definition as string).length > 200 ? "..." : ""}`);
-    lines.push(`  Implant: ${r.implant_flag} | Life-sustaining: ${r.life_sustain_support_flag} | GMP exempt: ${r.gmp_exempt_flag}`);
-    lines.push(`  Third-party eligible: ${r.third_party_flag} | Submission type: ${r.submission_type_id}`);
-    lines.push(`  FDA source: ${linkClassification(pc)}`);
-    if (regNum) lines.push(`  eCFR: ${linkECFR(regNum)}`);
-    lines.push("");
+// ─── Tool 14: search_de_novo ────────────────────────────────────────────────
+
+// openFDA has no De Novo endpoint: grants sit in the 510(k) data under DEN
+// numbers with decision code DENG
+const DE_NOVO_GRANTED = "DENG";
+
+// A grant created its product code when it is the earliest decision filed
+// under that code. One sorted query per distinct code on the page.
+async function markCreatedProductCodes(records: DeNovoRecord[]): Promise<void> {
+  const codes = [...new Set(records.map((r) => r.product_code).filter((pc): pc is string => !!pc))];
+  const first = new Map<string, string | null>();
+  for (const pc of codes) {
+    const { data } = await queryOpenFDA("510k", [`product_code:${pc}`], { limit: 1, sort: "decision_date:asc" });
+    if (data.error && data.error.code !== "NOT_FOUND") continue;
+    first.set(pc, asString(data.results?.[0]?.k_number)?.toUpperCase() ?? null);
+  }
+  for (const r of records) {
+    if (!r.product_code || !first.has(r.product_code)) continue;
+    r.created_product_code = first.get(r.product_code) === r.den_number;
   }
-
-  lines.push(formatFooter(url, data.meta));
-  return lines.join("\n");
 }
 
-// ─── Tool 2: search_510k ────────────────────────────────────────────────────
-
-server.tool(
-  "search_510k",
-  `Search FDA 510(k) clearance database. Best used with a product_code from classify_device, or a specific k_number for direct lookup. Company names vary in FDA data ("Medtronic" vs "Medtronic, Inc." vs "MEDTRONIC INC") — try partial names. Returns clearance details with FDA source links. Panel codes: ${PANEL_LIST}.`,
+server.registerTool(
+  "search_de_novo",
   {
-    product_code: z.string().optional().describe("3-letter FDA product code"),
-    k_number: z.string().optional().describe("Specific 510(k) number (e.g., 'K032161')"),
-    applicant: z.string().optional().describe("Company name (partial match)"),
-    device_name: z.string().optional().describe("Device name search"),
-    decision: z.enum(["SESE", "SEKN", "SESD"]).optional().describe("Decision code: SESE=substantially equivalent, SEKN=not SE, SESD=SE with limitations"),
-    clearance_type: z.enum(["Traditional", "Special", "Abbreviated"]).optional().describe("Clearance type"),
-    advisory_committee: z.string().optional().describe("Panel code (e.g., 'CV', 'SU', 'OR')"),
-    date_from: z.string().optional().describe("Decision date start (YYYY-MM-DD)"),
-    date_to: z.string().optional().describe("Decision date end (YYYY-MM-DD)"),
-    limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+    description: `Search De Novo classification grants — novel low-to-moderate-risk devices with no predicate. openFDA files these in the 510(k) data under DEN numbers; this tool searches only those. Filter by product code, requester, decision date, or look up a DEN number. Flags grants that created their product code (the first decision under the code), which later 510(k)s can then cite as a predicate. Returns AccessData De Novo links and decision summary PDFs.`,
+    inputSchema: {
+      den_number: z.string().optional().describe("Specific De Novo number (e.g., 'DEN200013')"),
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      requester: z.string().optional().describe("Requester company name (partial match, expanded to spelling variants)"),
+      device_name: z.string().optional().describe("Device name search"),
+      date_from: z.string().optional().describe("Decision date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Decision date end (YYYY-MM-DD)"),
+      limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination (max 25,000 — use cursor to go further)"),
+      cursor: z.string().optional().describe("Opaque cursor from a previous response's \"Next page\" hint"),
+    },
+    outputSchema: SearchDeNovoOutputSchema,
   },
-  async ({ product_code, k_number, applicant, device_name, decision, clearance_type, advisory_committee, date_from, date_to, limit }) => {
-    if (!product_code && !k_number && !applicant && !device_name) {
-      return { content: [{ type: "text" as const, text: "Error: Provide at least one of product_code, k_number, applicant, or device_name." }] };
+  trackCall(async ({ den_number, product_code, requester, device_name, date_from, date_to, limit, skip, cursor }) => {
+    if (den_number) {
+      den_number = stripDashes(den_number.trim().toUpperCase());
+      if (!DEN_NUMBER_RE.test(den_number)) {
+        return errorResult(`Validation error: "${den_number}" is not a valid De Novo number. Format: DEN followed by 6 digits (e.g., DEN200013).`);
+      }
     }
-
     if (product_code) {
       const err = validateProductCode(product_code);
-      if (err) return { content: [{ type: "text" as const, text: `Validation error: ${err}` }] };
+      if (err) return errorResult(`Validation error: ${err}`);
     }
-    if (k_number && !K_NUMBER_RE.test(k_number)) {
-      return { content: [{ type: "text" as const, text: `Validation error: "${k_number}" is not a valid 510(k) number. Format: K followed by 6-7 digits (e.g., K032161).` }] };
-    }
-    if (date_from) { const err = validateDate(date_from); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_from): ${err}` }] }; }
-    if (date_to) { const err = validateDate(date_to); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_to): ${err}` }] }; }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+    const page = resolvePage(skip, cursor);
+    if (typeof page === "string") return errorResult(`Validation error: ${page}`);
 
+    const filters: string[] = [];
     const searchParts: string[] = [];
+    const sort = den_number ? undefined : "decision_date:desc";
+    let company: CompanyResolution | null = null;
 
-    if (k_number) {
-      searchParts.push(`k_number:${k_number.toUpperCase()}`);
+    if (den_number) {
+      searchParts.push(`k_number:${den_number}`);
     } else {
-      if (product_code) searchParts.push(`product_code:${product_code.toUpperCase()}`);
-      if (applicant) searchParts.push(`applicant:"${applicant}"`);
-      if (device_name) searchParts.push(`device_name:"${device_name}"`);
-      if (decision) searchParts.push(`decision_code:${decision}`);
-      if (clearance_type) searchParts.push(`clearance_type:"${clearance_type}"`);
-      if (advisory_committee) searchParts.push(`advisory_committee:${advisory_committee.toUpperCase()}`);
-      if (date_from || date_to) {
-        const from = date_from ?? "1976-01-01";
-        const to = date_to ?? new Date().toISOString().slice(0, 10);
-        searchParts.push(`decision_date:[${from}+TO+${to}]`);
-      }
+      company = requester ? await resolveCompany("510k", requester) : null;
+      filters.push(...searchFilters("510k", { product_code, applicant: requester, device_name, decision: DE_NOVO_GRANTED }, { applicant: company?.part }));
+      searchParts.push(...filters);
+      if (date_from || date_to || page.before) searchParts.push(dateRangePart("510k", date_from, page.before ?? date_to));
     }
 
     const { data, url } = await queryOpenFDA("510k", searchParts, {
       limit: limit ?? 10,
-      sort: k_number ? undefined : "decision_date:desc",
+      skip: page.skip,
+      sort,
     });
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
 
-    if (data.error) return { content: [{ type: "text" as const, text: formatError(data, url) }] };
+    if (data.error) return errorResult(formatError(data, url));
     if (!data.results?.length) {
-      return { content: [{ type: "text" as const, text: `No 510(k) records found.\n\n${formatFooter(url, data.meta)}` }] };
+      return structuredResult(`No De Novo grants found.${companyLine}\n\n${formatFooter(url, data.meta)}`, emptySearchOutput(page, url, data, company));
     }
 
-    const total = data.meta?.results?.total ?? 0;
-    const lines: string[] = [`Found ${total} 510(k) clearance(s).\n`];
-
-    for (const r of data.results) {
-      const kn = r.k_number as string;
-      const decisionDate = normalizeDateResponse(r.decision_date as string);
-      const receivedDate = normalizeDateResponse(r.date_received as string);
-      const days = decisionDate && receivedDate ? daysBetween(receivedDate, decisionDate) : null;
+    const records = data.results.map(toDeNovoRecord);
+    await markCreatedProductCodes(records);
 
-      lines.push(`**${kn}** — ${r.device_name}`);
-      lines.push(`  Applicant: ${r.applicant}`);
-      lines.push(`  Decision: ${r.decision_description} | Type: ${r.clearance_type ?? "N/A"}`);
-      lines.push(`  Decision date: ${decisionDate ?? "N/A"} | Received: ${receivedDate ?? "N/A"}${days !== null ? ` | Days to decision: ${days}` : ""}`);
-      lines.push(`  Product code: ${r.product_code} | Panel: ${r.advisory_committee_description ?? r.advisory_committee}`);
-      lines.push(`  Submission type: ${r.statement_or_summary ?? "N/A"}`);
-      lines.push(`  FDA source: ${link510k(kn)}`);
+    const total = data.meta?.results?.total ?? 0;
+    const pageInfo = den_number ? null : await describePage("510k", filters, date_from, page, data, sort);
+    const lines: string[] = [`Found ${total} De Novo grant(s).${companyLine}${pageInfo ? `\n${pageInfo.line}` : ""}\n`];
+
+    for (const r of records) {
+      lines.push(`**${r.den_number}** — ${r.device_name ?? "N/A"}`);
+      lines.push(`  Requester: ${r.requester ?? "N/A"}`);
+      lines.push(`  Decision: ${r.decision_code ?? "N/A"} ${r.decision_date ?? "N/A"} | Received: ${r.date_received ?? "N/A"}${r.days_to_decision !== null ? ` | Days to decision: ${r.days_to_decision}` : ""}`);
+      const created = r.created_product_code ? " — created by this grant" : r.created_product_code === false ? " — existed before this grant" : "";
+      lines.push(`  Product code: ${r.product_code ?? "N/A"}${created} | Panel: ${r.advisory_committee_description ?? r.advisory_committee ?? "N/A"}`);
+      lines.push(`  FDA source: ${r.source_url ?? "N/A"}`);
+      lines.push(`  Decision summary: ${r.summary_url ?? "N/A"}`);
       lines.push("");
     }
 
     lines.push(formatFooter(url, data.meta));
-    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
-  }
+    const output: z.infer<typeof SearchDeNovoOutputSchema> = {
+      total,
+      skip: page.skip,
+      next_cursor: pageInfo?.nextCursor ?? null,
+      records,
+      source: sourceInfo(url, data.meta),
+      company: companySearchOutput(company),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
 );
 
-// ─── Tool 3: search_pma ─────────────────────────────────────────────────────
+// ─── Tool 15: maude_trends ──────────────────────────────────────────────────
+// Report-count series from date-bucketed count queries: one for all reports and
+// one per event type. A period is a spike when it sits `threshold` standard
+// deviations above the mean of a full window of complete periods before it.
 
-server.tool(
-  "search_pma",
-  `Search FDA PMA (Premarket Approval) database for Class III medical devices. Best used with a product_code or specific pma_number. Returns approval details with FDA source links. Panel codes: ${PANEL_LIST}.`,
+const TREND_EVENT_TYPES = ["Death", "Injury", "Malfunction", "Other"] as const;
+const TREND_DEFAULT_YEARS = 3;
+const TREND_MIN_BASELINE = 3;
+const TREND_MIN_SPIKE_COUNT = 5;
+
+// Lag and summary reporting move counts between periods without any change in events
+const MAUDE_TREND_NOTE =
+  "Reporting artefacts: reports are bucketed by date FDA received them, and manufacturers have up to 30 days (user facilities up to 10 work days, then an annual summary) to report, so the latest periods are incomplete until openFDA's next updates. Malfunctions filed under FDA's Voluntary Malfunction Summary Reporting program arrive in quarterly batches, and recalls, safety communications or litigation can trigger bursts of reports about older events — a spike is a reason to read the reports, not evidence of a change in device performance.";
+
+type TrendInterval = "month" | "quarter";
+
+function trendPeriod(date: string, interval: TrendInterval): string {
+  if (interval === "month") return date.slice(0, 7);
+  return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+}
+
+// Every period from `from` to `to`, so empty periods count as zero
+function trendPeriods(from: string, to: string, interval: TrendInterval): string[] {
+  const periods: string[] = [];
+  const d = new Date(`${from.slice(0, 7)}-01T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (d <= end) {
+    const period = trendPeriod(d.toISOString().slice(0, 10), interval);
+    if (periods.at(-1) !== period) periods.push(period);
+    d.setUTCMonth(d.getUTCMonth() + 1);
+  }
+  return periods;
+}
+
+function trendCounts(results: Record<string, unknown>[], interval: TrendInterval): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const r of results) {
+    const date = normalizeDateResponse(String(r.time ?? ""));
+    if (!date) continue;
+    const period = trendPeriod(date, interval);
+    counts.set(period, (counts.get(period) ?? 0) + Number(r.count ?? 0));
+  }
+  return counts;
+}
+
+const TrendSpikeSchema = z.object({
+  period: z.string(),
+  series: z.string().describe("\"All reports\" or an event type"),
+  count: z.number(),
+  baseline_mean: z.number(),
+  baseline_sd: z.number(),
+  z_score: z.number(),
+});
+
+const MaudeTrendOutputSchema = z.object({
+  interval: z.enum(["month", "quarter"]),
+  date_from: z.string(),
+  date_to: z.string(),
+  baseline_periods: z.number(),
+  threshold: z.number(),
+  scored_from: nullableString.describe("First period scored for spikes: earlier ones lack a full baseline window, incomplete ones are never scored"),
+  series: z.array(z.object({
+    period: z.string(),
+    total: z.number(),
+    by_event_type: z.record(z.string(), z.number()),
+    incomplete: z.boolean().describe("Period may still be filling in (reporting lag)"),
+  })),
+  spikes: z.array(TrendSpikeSchema),
+  query_urls: z.record(z.string(), z.string()).describe("Count query per series"),
+  company: CompanySearchSchema.optional(),
+  last_updated: nullableString,
+  caveat: z.string().describe("Mandatory MAUDE caveat — convey it with the data"),
+  reporting_note: z.string(),
+});
+
+type TrendSpike = z.infer<typeof TrendSpikeSchema>;
+
+// Only the first `complete` periods are scored or used as baseline, each against
+// a full window. Poisson floor on the spread: a flat baseline of 2/month must not
+// make 4 a spike.
+function findSpikes(name: string, periods: string[], counts: number[], complete: number, baseline: number, threshold: number): TrendSpike[] {
+  const spikes: TrendSpike[] = [];
+  for (let i = baseline; i < complete; i++) {
+    const window = counts.slice(i - baseline, i);
+    const mean = window.reduce((a, b) => a + b, 0) / window.length;
+    const variance = window.reduce((a, b) => a + (b - mean) ** 2, 0) / window.length;
+    const sd = Math.max(Math.sqrt(variance), Math.sqrt(mean), 1);
+    const z = (counts[i]! - mean) / sd;
+    if (z >= threshold && counts[i]! >= TREND_MIN_SPIKE_COUNT) {
+      spikes.push({ period: periods[i]!, series: name, count: counts[i]!, baseline_mean: Math.round(mean * 10) / 10, baseline_sd: Math.round(sd * 10) / 10, z_score: Math.round(z * 10) / 10 });
+    }
+  }
+  return spikes;
+}
+
+server.registerTool(
+  "maude_trends",
   {
-    product_code: z.string().optional().describe("3-letter FDA product code"),
-    pma_number: z.string().optional().describe("Specific PMA number (e.g., 'P170019')"),
-    applicant: z.string().optional().describe("Company name (partial match)"),
-    trade_name: z.string().optional().describe("Commercial product name"),
-    advisory_committee: z.string().optional().describe("Panel code"),
-    date_from: z.string().optional().describe("Decision date start (YYYY-MM-DD)"),
-    date_to: z.string().optional().describe("Decision date end (YYYY-MM-DD)"),
-    limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+    description: `Trend MAUDE adverse event report counts for a product code, brand or manufacturer — a monthly or quarterly series broken down by event type (Death, Injury, Malfunction, Other), with periods flagged where counts spike above a rolling baseline (z-score against the preceding periods). Built from date-bucketed count queries, so it covers every report, not a sample. IMPORTANT: MAUDE reports are unverified and self-reported; reporting lag and summary reporting create artificial dips and spikes. Always convey the caveat and the reporting note.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      brand_name: z.string().optional().describe("Device brand name"),
+      manufacturer: z.string().optional().describe("Manufacturer name (expanded to spelling variants)"),
+      interval: z.enum(["month", "quarter"]).optional().describe("Period size (default month)"),
+      date_from: z.string().optional().describe(`Date received start (YYYY-MM-DD, default ${TREND_DEFAULT_YEARS} years ago)`),
+      date_to: z.string().optional().describe("Date received end (YYYY-MM-DD, default today)"),
+      baseline_periods: z.number().int().min(TREND_MIN_BASELINE).max(36).optional().describe("Preceding periods in the rolling baseline (default 12 months or 4 quarters)"),
+      threshold: z.number().min(1).max(10).optional().describe("Standard deviations above the baseline mean that count as a spike (default 3)"),
+    },
+    outputSchema: MaudeTrendOutputSchema,
   },
-  async ({ product_code, pma_number, applicant, trade_name, advisory_committee, date_from, date_to, limit }) => {
-    if (!product_code && !pma_number && !applicant && !trade_name) {
-      return { content: [{ type: "text" as const, text: "Error: Provide at least one of product_code, pma_number, applicant, or trade_name." }] };
+  trackCall(async ({ product_code, brand_name, manufacturer, interval, date_from, date_to, baseline_periods, threshold }) => {
+    if (!product_code && !brand_name && !manufacturer) {
+      return errorResult("Error: Provide at least one of product_code, brand_name, or manufacturer.");
     }
-
     if (product_code) {
       const err = validateProductCode(product_code);
-      if (err) return { content: [{ type: "text" as const, text: `Validation error: ${err}` }] };
+      if (err) return errorResult(`Validation error: ${err}`);
     }
-    if (pma_number && !PMA_NUMBER_RE.test(pma_number)) {
-      return { content: [{ type: "text" as const, text: `Validation error: "${pma_number}" is not a valid PMA number. Format: P followed by 6 digits (e.g., P170019).` }] };
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+
+    const period = interval ?? "month";
+    const from = date_from ?? yearsAgo(TREND_DEFAULT_YEARS);
+    const to = date_to ?? new Date().toISOString().slice(0, 10);
+    if (from > to) return errorResult("Validation error: date_from is after date_to.");
+    const baseline = baseline_periods ?? (period === "month" ? 12 : 4);
+    const zThreshold = threshold ?? 3;
+
+    const company = manufacturer ? await resolveCompany("event", manufacturer) : null;
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+    const filters = searchFilters("event", { product_code, brand_name, manufacturer }, { manufacturer: company?.part });
+    const dateRange = dateRangePart("event", from, to);
+
+    const periods = trendPeriods(from, to, period);
+    const seriesCounts: Record<string, number[]> = {};
+    const queryUrls: Record<string, string> = {};
+    let lastUpdated: string | null = null;
+
+    for (const name of ["All reports", ...TREND_EVENT_TYPES]) {
+      const typeFilter = name === "All reports" ? [] : searchFilters("event", { event_type: name });
+      const { data, url } = await queryOpenFDA("event", [...filters, ...typeFilter, dateRange], { count: "date_received", limit: 1000 });
+      if (data.error && data.error.code !== "NOT_FOUND") return errorResult(`${MAUDE_CAVEAT}\n${formatError(data, url)}`);
+      lastUpdated ??= data.meta?.last_updated ?? null;
+      const counts = trendCounts(data.results ?? [], period);
+      seriesCounts[name] = periods.map((p) => counts.get(p) ?? 0);
+      queryUrls[name] = redactedUrl(url);
     }
-    if (date_from) { const err = validateDate(date_from); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_from): ${err}` }] }; }
-    if (date_to) { const err = validateDate(date_to); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_to): ${err}` }] }; }
 
-    const searchParts: string[] = [];
+    const totals = seriesCounts["All reports"]!;
+    if (totals.every((n) => n === 0)) {
+      const text = `${MAUDE_CAVEAT}\nNo adverse event reports received ${from} to ${to}.${companyLine}\n\nQuery: ${queryUrls["All reports"]}\n${formatMultiQueryFooter({ event: lastUpdated })}`;
+      return structuredResult(text, {
+        interval: period, date_from: from, date_to: to, baseline_periods: baseline, threshold: zThreshold,
+        scored_from: null, series: [], spikes: [], query_urls: queryUrls, company: companySearchOutput(company),
+        last_updated: lastUpdated, caveat: MAUDE_CAVEAT.trim(), reporting_note: MAUDE_TREND_NOTE,
+      });
+    }
 
-    if (pma_number) {
-      searchParts.push(`pma_number:${pma_number.toUpperCase()}`);
+    // Periods ending within two months of the data date are still filling in
+    const dataDate = lastUpdated && DATE_RE.test(lastUpdated) ? new Date(`${lastUpdated}T00:00:00Z`) : new Date();
+    const lagCutoff = trendPeriod(new Date(dataDate.getTime() - 60 * 86_400_000).toISOString().slice(0, 10), period);
+    const firstIncomplete = periods.findIndex((p) => p >= lagCutoff);
+    const complete = firstIncomplete === -1 ? periods.length : firstIncomplete;
+    const scoredFrom = complete > baseline ? periods[baseline]! : null;
+    const spikes = Object.entries(seriesCounts).flatMap(([name, counts]) => findSpikes(name, periods, counts, complete, baseline, zThreshold));
+    const series = periods.map((p, i) => ({
+      period: p,
+      total: totals[i]!,
+      by_event_type: Object.fromEntries(TREND_EVENT_TYPES.map((t) => [t, seriesCounts[t]![i]!])),
+      incomplete: p >= lagCutoff,
+    }));
+
+    const scope = [product_code?.toUpperCase(), brand_name && `brand "${brand_name}"`, manufacturer && `manufacturer "${manufacturer}"`].filter(Boolean).join(", ");
+    const lines: string[] = [
+      MAUDE_CAVEAT,
+      `## MAUDE report trend — ${scope} (${period === "month" ? "monthly" : "quarterly"}, received ${from} to ${to})${companyLine}`,
+      "",
+      `| ${period === "month" ? "Month" : "Quarter"} | All | ${TREND_EVENT_TYPES.join(" | ")} | |`,
+      `|---|---:|${TREND_EVENT_TYPES.map(() => "---:|").join("")}---|`,
+    ];
+    for (const row of series) {
+      const flags = [
+        spikes.some((s) => s.period === row.period) ? "▲ spike" : null,
+        row.incomplete ? "incomplete" : null,
+      ].filter(Boolean).join(", ");
+      lines.push(`| ${row.period} | ${row.total} | ${TREND_EVENT_TYPES.map((t) => row.by_event_type[t]).join(" | ")} | ${flags} |`);
+    }
+
+    lines.push("", `### Spikes (≥ ${zThreshold} SD above the preceding ${baseline} ${period}s, at least ${TREND_MIN_SPIKE_COUNT} reports)`);
+    if (scoredFrom === null) {
+      lines.push(`Not scored: no complete ${period} has ${baseline} complete ${period}s before it. Move date_from earlier or lower baseline_periods.`);
     } else {
-      if (product_code) searchParts.push(`product_code:${product_code.toUpperCase()}`);
-      if (applicant) searchParts.push(`applicant:"${applicant}"`);
-      if (trade_name) searchParts.push(`trade_name:"${trade_name}"`);
-      if (advisory_committee) searchParts.push(`advisory_committee:${advisory_committee.toUpperCase()}`);
-      if (date_from || date_to) {
-        const from = date_from ?? "1976-01-01";
-        const to = date_to ?? new Date().toISOString().slice(0, 10);
-        searchParts.push(`decision_date:[${from}+TO+${to}]`);
-      }
+      lines.push(`Scored from ${scoredFrom}${complete < periods.length ? ` to ${periods[complete - 1]}` : ""}: earlier ${period}s lack a full baseline, and incomplete ${period}s are neither scored nor used as baseline.`);
+      if (spikes.length === 0) lines.push("None.");
+    }
+    for (const s of spikes) {
+      lines.push(`- ${s.period} — ${s.series}: ${s.count} reports vs baseline ${s.baseline_mean} ± ${s.baseline_sd} (z = ${s.z_score})`);
     }
 
-    const { data, url } = await queryOpenFDA("pma", searchParts, {
-      limit: limit ?? 10,
-      sort: pma_number ? undefined : "decision_date:desc",
-    });
+    lines.push("", `_${MAUDE_TREND_NOTE}_`, "", "**Queries**");
+    for (const [name, url] of Object.entries(queryUrls)) lines.push(`- ${name}: ${url}`);
+    lines.push("", formatMultiQueryFooter({ event: lastUpdated }));
+
+    const output: z.infer<typeof MaudeTrendOutputSchema> = {
+      interval: period,
+      date_from: from,
+      date_to: to,
+      baseline_periods: baseline,
+      threshold: zThreshold,
+      scored_from: scoredFrom,
+      series,
+      spikes,
+      query_urls: queryUrls,
+      company: companySearchOutput(company),
+      last_updated: lastUpdated,
+      caveat: MAUDE_CAVEAT.trim(),
+      reporting_note: MAUDE_TREND_NOTE,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
 
-    if (data.error) return { content: [{ type: "text" as const, text: formatError(data, url) }] };
-    if (!data.results?.length) {
-      return { content: [{ type: "text" as const, text: `No PMA records found.\n\n${formatFooter(url, data.meta)}` }] };
-    }
+// ─── Tool 16: get_adverse_event ─────────────────────────────────────────────
 
-    const total = data.meta?.results?.total ?? 0;
-    const lines: string[] = [`Found ${total} PMA record(s).\n`];
+// Records fetched per lookup; a report number can be shared by follow-up reports
+const EVENT_LOOKUP_LIMIT = 10;
 
-    for (const r of data.results) {
-      const pn = r.pma_number as string;
-      const supplement = r.supplement_number as string | undefined;
-      const displayNumber = supplement ? `${pn}/${supplement}` : pn;
-      const decisionDate = normalizeDateResponse(r.decision_date as string);
+const GetAdverseEventOutputSchema = z.object({
+  matches: z.number().describe("Records matching the identifier; the first is returned"),
+  record: AdverseEventDetailSchema,
+  other_mdr_report_keys: z.array(z.string()).describe(`MDR report keys of the other matches (up to ${EVENT_LOOKUP_LIMIT - 1})`),
+  source: SourceSchema,
+  caveat: z.string().describe("Mandatory MAUDE caveat — convey it with the data"),
+});
 
-      lines.push(`**${displayNumber}** — ${r.trade_name ?? r.generic_name ?? "N/A"}`);
-      lines.push(`  Generic name: ${r.generic_name ?? "N/A"}`);
-      lines.push(`  Applicant: ${r.applicant}`);
-      lines.push(`  Decision: ${r.decision_code} | Date: ${decisionDate ?? "N/A"}`);
-      lines.push(`  Product code: ${r.product_code} | Panel: ${r.advisory_committee_description ?? r.advisory_committee}`);
-      if (r.supplement_type) lines.push(`  Supplement type: ${r.supplement_type} | Reason: ${r.supplement_reason ?? "N/A"}`);
-      lines.push(`  FDA source: ${linkPMA(pn)}`);
-      lines.push("");
-    }
+function formatEventDetail(e: z.infer<typeof AdverseEventDetailSchema>): string[] {
+  const na = (value: string | null) => value ?? "N/A";
+  const list = (values: string[]) => (values.length ? values.join("; ") : "N/A");
+  const lines: string[] = [
+    `## MAUDE report ${na(e.report_number)} — ${na(e.event_type)}`,
+    `MDR report key: ${na(e.mdr_report_key)} | Report source: ${na(e.report_source)} | Source type: ${list(e.source_type)}`,
+    `Type of report: ${list(e.type_of_report)} | Reporter occupation: ${na(e.reporter_occupation)} | Health professional: ${na(e.health_professional)}`,
+    `Reporting manufacturer: ${na(e.reporting_manufacturer)} | Event location: ${na(e.event_location)}`,
+    "",
+    "**Dates**",
+    `  Event: ${na(e.date_of_event)} | Facility aware: ${na(e.date_facility_aware)} | Manufacturer received: ${na(e.date_manufacturer_received)}`,
+    `  Report: ${na(e.date_report)} | FDA received: ${na(e.date_received)} | Added: ${na(e.date_added)} | Changed: ${na(e.date_changed)}`,
+    "",
+    `**Product problems:** ${list(e.product_problems)}`,
+    `**Remedial action:** ${list(e.remedial_action)}`,
+    `Adverse event flag: ${na(e.adverse_event_flag)} | Product problem flag: ${na(e.product_problem_flag)} | Previous use: ${na(e.previous_use_code)} | Single use: ${na(e.single_use_flag)} | Reprocessed: ${na(e.reprocessed_and_reused_flag)}`,
+  ];
+
+  lines.push("", `**Devices (${e.devices.length})**`);
+  for (const d of e.devices) {
+    lines.push(`- ${d.sequence_number ? `#${d.sequence_number} ` : ""}${na(d.brand_name)} (${na(d.generic_name)}) — ${na(d.manufacturer)}${d.manufacturer_country ? `, ${d.manufacturer_country}` : ""}`);
+    lines.push(`  Product code: ${na(d.product_code)} | Class: ${na(d.device_class)} | Model: ${na(d.model_number)} | Catalog: ${na(d.catalog_number)} | Lot: ${na(d.lot_number)}`);
+    lines.push(`  UDI-DI: ${na(d.udi_di)} | Operator: ${na(d.operator)} | Returned to manufacturer: ${na(d.availability)} | Evaluated by manufacturer: ${na(d.evaluated_by_manufacturer)} | Implant: ${na(d.implant_flag)} | Age: ${na(d.device_age)}`);
+  }
 
-    lines.push(formatFooter(url, data.meta));
-    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+  lines.push("", `**Patients (${e.patients.length})**`);
+  for (const p of e.patients) {
+    lines.push(`- ${p.sequence_number ? `#${p.sequence_number} ` : ""}Age: ${na(p.age)} | Sex: ${na(p.sex)} | Weight: ${na(p.weight)}`);
+    lines.push(`  Outcomes: ${list(p.outcomes)} | Treatments: ${list(p.treatments)}`);
+    lines.push(`  Patient problems: ${list(p.problems)}`);
   }
-);
 
-// ─── Tool 4: search_recalls ─────────────────────────────────────────────────
+  lines.push("", "**Narratives**");
+  if (e.narratives.length === 0) lines.push("None in the record.");
+  for (const n of e.narratives) {
+    lines.push("", `### ${na(n.text_type)}${n.patient_sequence_number ? ` (patient ${n.patient_sequence_number})` : ""}`, n.text);
+  }
 
-server.tool(
-  "search_recalls",
-  `Search FDA medical device recall database (2002+). Best used with a product_code. Note: recall severity classification (Class I/II/III) is not available from this endpoint — check the FDA source link for each recall to see severity on the FDA's page. Returns recall details with FDA source links.`,
+  lines.push("", `FDA source: ${na(e.source_url)}`);
+  return lines;
+}
+
+server.registerTool(
+  "get_adverse_event",
   {
-    product_code: z.string().optional().describe("3-letter FDA product code"),
-    recalling_firm: z.string().optional().describe("Company name (partial match)"),
-    status: z.enum(["Open", "Completed", "Terminated"]).optional().describe("Recall status"),
-    date_from: z.string().optional().describe("Event initiation date start (YYYY-MM-DD)"),
-    date_to: z.string().optional().describe("Event initiation date end (YYYY-MM-DD)"),
-    limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+    description: `Retrieve one MAUDE adverse event report in full by mdr_report_key or report_number — every narrative section (event description and manufacturer narrative), every device and patient entry, product and patient problem terms, remedial action and all report dates. Use after search_adverse_events, which shows only a shortened description. IMPORTANT: MAUDE data contains unverified, self-reported information; a report does not establish causation. Always convey the caveat.`,
+    inputSchema: {
+      mdr_report_key: z.string().optional().describe("MDR report key (e.g., '19151705')"),
+      report_number: z.string().optional().describe("Report number (e.g., '1234567-2024-00001' or 'MW5012345')"),
+    },
+    outputSchema: GetAdverseEventOutputSchema,
   },
-  async ({ product_code, recalling_firm, status, date_from, date_to, limit }) => {
-    if (!product_code && !recalling_firm) {
-      return { content: [{ type: "text" as const, text: "Error: Provide at least one of product_code or recalling_firm." }] };
+  trackCall(async ({ mdr_report_key, report_number }) => {
+    if (!mdr_report_key === !report_number) return errorResult("Error: Provide exactly one of mdr_report_key or report_number.");
+    const key = mdr_report_key?.trim();
+    if (key !== undefined && !/^\d+$/.test(key)) {
+      return errorResult(`Validation error: "${mdr_report_key}" is not a valid MDR report key. It is a number (e.g., 19151705).`);
+    }
+    const reportNumber = report_number?.trim().replace(/"/g, "");
+    if (reportNumber !== undefined && !/^[A-Z0-9-]+$/i.test(reportNumber)) {
+      return errorResult(`Validation error: "${report_number}" is not a valid report number (e.g., 1234567-2024-00001 or MW5012345).`);
+    }
+
+    const part = key !== undefined ? `mdr_report_key:${key}` : `report_number:"${reportNumber!.toUpperCase()}"`;
+    const { data, url } = await queryOpenFDA("event", [part], { limit: EVENT_LOOKUP_LIMIT });
+    if (data.error && data.error.code !== "NOT_FOUND") return errorResult(`${MAUDE_CAVEAT}\n${formatError(data, url)}`);
+    const record = data.results?.[0];
+    if (!record) {
+      return errorResult(`${MAUDE_CAVEAT}\nNo MAUDE report found for ${key !== undefined ? `MDR report key ${key}` : `report number ${reportNumber}`}.\n\n${formatFooter(url, data.meta)}`);
+    }
+
+    const detail = toAdverseEventDetail(record);
+    const matches = data.meta?.results?.total ?? 1;
+    const others = (data.results ?? []).slice(1).flatMap((r) => asString(r.mdr_report_key) ?? []);
+    const lines = [MAUDE_CAVEAT, ...formatEventDetail(detail)];
+    if (matches > 1) {
+      const listed = others.length ? ` Look up the others by MDR report key: ${others.join(", ")}${matches - 1 > others.length ? ` (first ${others.length} of ${matches - 1})` : ""}.` : "";
+      lines.splice(2, 0, `_${matches} records share this identifier; showing the first.${listed}_`);
     }
+    lines.push("", formatFooter(url, data.meta));
+
+    const output: z.infer<typeof GetAdverseEventOutputSchema> = {
+      matches,
+      record: detail,
+      other_mdr_report_keys: others,
+      source: sourceInfo(url, data.meta),
+      caveat: MAUDE_CAVEAT.trim(),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 17: maude_problems ────────────────────────────────────────────────
+// Device and patient problem terms ranked by count queries, split by event type
+// with one count per type, plus the latest few reports behind each top problem.
+
+const PROBLEM_EVENT_TYPES = ["Death", "Injury", "Malfunction"] as const;
+const PROBLEM_KINDS = {
+  device: { path: "product_problems.exact", label: "Device problem" },
+  patient: { path: "patient.patient_problems.exact", label: "Patient problem" },
+} as const;
+const PROBLEM_SAMPLED = 5;
+
+const ProblemSampleSchema = z.object({
+  mdr_report_key: nullableString,
+  report_number: nullableString,
+  event_type: nullableString,
+  date_received: nullableString,
+  source_url: nullableString,
+});
+
+const ProblemRowSchema = z.object({
+  problem: z.string(),
+  count: z.number().describe("Reports listing this problem"),
+  by_event_type: z.record(z.string(), z.number()).describe("Death, Injury, Malfunction, and Other for the rest"),
+  samples: z.array(ProblemSampleSchema).describe("Latest reports listing this problem (top problems only)"),
+});
+
+const MaudeProblemsOutputSchema = z.object({
+  total_reports: z.number(),
+  date_from: nullableString,
+  date_to: nullableString,
+  device_problems: z.array(ProblemRowSchema),
+  patient_problems: z.array(ProblemRowSchema),
+  query_urls: z.array(z.string()),
+  company: CompanySearchSchema.optional(),
+  last_updated: nullableString,
+  caveat: z.string().describe("Mandatory MAUDE caveat — convey it with the data"),
+});
+
+type ProblemRow = z.infer<typeof ProblemRowSchema>;
 
+server.registerTool(
+  "maude_problems",
+  {
+    description: `Answer "what goes wrong with these devices?" — ranks the MAUDE device problem terms (product_problems) and patient problem terms (patient.patient_problems) reported for a product code, brand or manufacturer over a date range, splits each by event type (Death/Injury/Malfunction), and links a few recent sample reports for each top problem. One report can list several problems. IMPORTANT: MAUDE reports are unverified and self-reported; problem terms are the reporter's coding, not a confirmed failure mode. Always convey the caveat.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      brand_name: z.string().optional().describe("Device brand name"),
+      manufacturer: z.string().optional().describe("Manufacturer name (expanded to spelling variants)"),
+      date_from: z.string().optional().describe("Date received start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Date received end (YYYY-MM-DD)"),
+      top: z.number().int().min(1).max(25).optional().describe("Problems to rank per kind (default 10)"),
+      samples: z.number().int().min(0).max(5).optional().describe(`Sample reports per top-${PROBLEM_SAMPLED} problem (default 3)`),
+    },
+    outputSchema: MaudeProblemsOutputSchema,
+  },
+  trackCall(async ({ product_code, brand_name, manufacturer, date_from, date_to, top, samples }) => {
+    if (!product_code && !brand_name && !manufacturer) {
+      return errorResult("Error: Provide at least one of product_code, brand_name, or manufacturer.");
+    }
     if (product_code) {
       const err = validateProductCode(product_code);
-      if (err) return { content: [{ type: "text" as const, text: `Validation error: ${err}` }] };
+      if (err) return errorResult(`Validation error: ${err}`);
     }
-    if (date_from) { const err = validateDate(date_from); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_from): ${err}` }] }; }
-    if (date_to) { const err = validateDate(date_to); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_to): ${err}` }] }; }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+
+    const company = manufacturer ? await resolveCompany("event", manufacturer) : null;
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+    const searchParts = searchFilters("event", { product_code, brand_name, manufacturer }, { manufacturer: company?.part });
+    if (date_from || date_to) searchParts.push(dateRangePart("event", date_from, date_to));
+    const topN = top ?? 10;
+    const sampleN = samples ?? 3;
+    const queryUrls: string[] = [];
+
+    const totalQuery = await queryOpenFDA("event", searchParts, { limit: 1 });
+    queryUrls.push(redactedUrl(totalQuery.url));
+    if (totalQuery.data.error && totalQuery.data.error.code !== "NOT_FOUND") {
+      return errorResult(`${MAUDE_CAVEAT}\n${formatError(totalQuery.data, totalQuery.url)}`);
+    }
+    const totalReports = totalQuery.data.meta?.results?.total ?? 0;
+    const lastUpdated = totalQuery.data.meta?.last_updated ?? null;
+
+    // NOT_FOUND is an empty count; other failures abort the breakdown
+    const countTerms = async (path: string, parts: string[], limit: number): Promise<Map<string, number> | OpenFDAResponse> => {
+      const { data, url } = await queryOpenFDA("event", parts, { count: path, limit });
+      queryUrls.push(redactedUrl(url));
+      if (data.error && data.error.code !== "NOT_FOUND") return data;
+      return new Map((data.results ?? []).map((r) => [String(r.term ?? ""), Number(r.count ?? 0)]));
+    };
 
-    const searchParts: string[] = [];
-    if (product_code) searchParts.push(`product_code:${product_code.toUpperCase()}`);
-    if (recalling_firm) searchParts.push(`recalling_firm:"${recalling_firm}"`);
-    if (status) searchParts.push(`recall_status:"${status}"`);
-    if (date_from || date_to) {
-      const from = date_from ?? "2002-01-01";
-      const to = date_to ?? new Date().toISOString().slice(0, 10);
-      searchParts.push(`event_date_initiated:[${from}+TO+${to}]`);
+    const breakdown: Record<keyof typeof PROBLEM_KINDS, ProblemRow[]> = { device: [], patient: [] };
+    for (const kind of ["device", "patient"] as const) {
+      if (totalReports === 0) break;
+      const spec = PROBLEM_KINDS[kind];
+      const overall = await countTerms(spec.path, searchParts, topN);
+      if (!(overall instanceof Map)) return errorResult(`${MAUDE_CAVEAT}\n${formatError(overall, queryUrls.at(-1)!)}`);
+
+      // A wide per-type count, so the top problems' split is exact in all but extreme cases
+      const perType = new Map<string, Map<string, number>>();
+      for (const type of PROBLEM_EVENT_TYPES) {
+        const counts = await countTerms(spec.path, [...searchParts, ...searchFilters("event", { event_type: type })], 1000);
+        if (!(counts instanceof Map)) return errorResult(`${MAUDE_CAVEAT}\n${formatError(counts, queryUrls.at(-1)!)}`);
+        perType.set(type, counts);
+      }
+
+      for (const [problem, count] of overall) {
+        const byType: Record<string, number> = {};
+        for (const type of PROBLEM_EVENT_TYPES) byType[type] = perType.get(type)!.get(problem) ?? 0;
+        byType.Other = Math.max(0, count - PROBLEM_EVENT_TYPES.reduce((sum, t) => sum + byType[t]!, 0));
+        breakdown[kind].push({ problem, count, by_event_type: byType, samples: [] });
+      }
+
+      if (sampleN === 0) continue;
+      for (const row of breakdown[kind].slice(0, PROBLEM_SAMPLED)) {
+        const { data, url } = await queryOpenFDA("event", [...searchParts, `${spec.path}:"${escapeExpressionValue(row.problem.replace(/"/g, ""))}"`], { limit: sampleN, sort: "date_received:desc" });
+        queryUrls.push(redactedUrl(url));
+        if (data.error && data.error.code !== "NOT_FOUND") return errorResult(`${MAUDE_CAVEAT}\n${formatError(data, url)}`);
+        row.samples = (data.results ?? []).map((r) => {
+          const key = asString(r.mdr_report_key);
+          return {
+            mdr_report_key: key,
+            report_number: asString(r.report_number),
+            event_type: asString(r.event_type),
+            date_received: normalizeDateResponse(r.date_received),
+            source_url: key ? linkMAUDE(key) : null,
+          };
+        });
+      }
     }
 
-    const { data, url } = await queryOpenFDA("recall", searchParts, {
-      limit: limit ?? 10,
-      sort: "event_date_initiated:desc",
-    });
+    const scope = [product_code?.toUpperCase(), brand_name && `brand "${brand_name}"`, manufacturer && `manufacturer "${manufacturer}"`].filter(Boolean).join(", ");
+    const range = date_from || date_to ? `, received ${date_from ?? "earliest"} to ${date_to ?? "today"}` : "";
+    const lines: string[] = [
+      MAUDE_CAVEAT,
+      `## MAUDE problem breakdown — ${scope}${range}${companyLine}`,
+      `${totalReports.toLocaleString()} report(s). A report can list several problems, so problem counts don't add up to the report total.`,
+    ];
+    for (const kind of ["device", "patient"] as const) {
+      const spec = PROBLEM_KINDS[kind];
+      const rows = breakdown[kind];
+      lines.push("", `### ${spec.label}s (top ${rows.length})`, "");
+      if (rows.length === 0) {
+        lines.push("None coded.");
+        continue;
+      }
+      lines.push(`| # | ${spec.label} | Reports | ${PROBLEM_EVENT_TYPES.join(" | ")} | Other |`, `|---:|---|---:|${PROBLEM_EVENT_TYPES.map(() => "---:|").join("")}---:|`);
+      rows.forEach((row, i) => {
+        lines.push(`| ${i + 1} | ${row.problem.replace(/\|/g, "\\|")} | ${row.count} | ${PROBLEM_EVENT_TYPES.map((t) => row.by_event_type[t]).join(" | ")} | ${row.by_event_type.Other} |`);
+      });
+      const sampled = rows.filter((row) => row.samples.length > 0);
+      if (sampled.length) lines.push("", "Sample reports:");
+      for (const row of sampled) {
+        lines.push(`- ${row.problem}: ${row.samples.map((x) => `${x.mdr_report_key} (${x.event_type ?? "N/A"}, ${x.date_received ?? "N/A"}) ${x.source_url ?? ""}`.trimEnd()).join("; ")}`);
+      }
+    }
 
-    if (data.error) return { content: [{ type: "text" as const, text: formatError(data, url) }] };
-    if (!data.results?.length) {
-      return { content: [{ type: "text" as const, text: `No recall records found.\n\n${formatFooter(url, data.meta)}` }] };
+    lines.push("", "**Queries**", ...queryUrls.map((u) => `- ${u}`), "", formatMultiQueryFooter({ event: lastUpdated }));
+
+    const output: z.infer<typeof MaudeProblemsOutputSchema> = {
+      total_reports: totalReports,
+      date_from: date_from ?? null,
+      date_to: date_to ?? null,
+      device_problems: breakdown.device,
+      patient_problems: breakdown.patient,
+      query_urls: queryUrls,
+      company: companySearchOutput(company),
+      last_updated: lastUpdated,
+      caveat: MAUDE_CAVEAT.trim(),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
+
+// ─── Tool 18: recall_analysis ───────────────────────────────────────────────
+// Every recall for a product code or firm, grouped in memory, and the openfda
+// K numbers on those recalls turned around into the cleared devices behind them.
+
+const RECALL_ANALYSIS_MAX = 5000;
+const RECALL_K_BATCH = 50;
+const RECALLED_DEVICES_SHOWN = 25;
+
+// product_quantity is free text ("1,200 units", "3 cases (36 kits)", "Lot 123").
+// Only a bare number, or a number followed by a unit word, counts as parsed.
+// Container words (cases, boxes) are left out so "12 cases (144 units)" reads 144.
+const QUANTITY_UNIT_RE = /(\d[\d,]*)\s*(?:units?|devices?|pieces?|pcs|kits?|each|ea|systems?|instruments?|vials?|bottles?)\b/i;
+
+function parseRecallQuantity(text: string | null): number | null {
+  if (!text) return null;
+  const bare = text.trim().match(/^(?:approximately|approx\.?|about|total(?: of)?:?)?\s*(\d[\d,]*)\s*$/i);
+  const match = bare ?? text.match(QUANTITY_UNIT_RE);
+  if (!match) return null;
+  const value = Number(match[1]!.replace(/,/g, ""));
+  return Number.isFinite(value) ? value : null;
+}
+
+const RecallGroupSchema = z.object({
+  value: z.string(),
+  recalls: z.number().describe("Product-level recall records"),
+  events: z.number().describe("Distinct recall events (res_event_number)"),
+  quantity: z.number().describe("Sum of product_quantity where it parsed"),
+  quantity_unparsed: z.number().describe("Records whose quantity did not parse"),
+});
+
+const RecalledDeviceSchema = z.object({
+  k_number: z.string(),
+  device_name: nullableString,
+  applicant: nullableString,
+  decision_date: nullableString,
+  recalls: z.number(),
+  first_recall: nullableString,
+  days_to_first_recall: z.number().nullable(),
+  recall_numbers: z.array(z.string()),
+  source_url: z.string(),
+  lookup_failed: z.boolean().describe("The 510(k) query for this number failed, so clearance fields are unknown rather than absent"),
+});
+
+const RecallAnalysisOutputSchema = z.object({
+  total_recalls: z.number(),
+  analyzed: z.number(),
+  truncated: z.boolean(),
+  events: z.number(),
+  quantity: z.number(),
+  quantity_unparsed: z.number(),
+  by_root_cause: z.array(RecallGroupSchema),
+  by_status: z.array(RecallGroupSchema),
+  by_year: z.array(RecallGroupSchema),
+  recalled_devices: z.array(RecalledDeviceSchema).describe("Cleared 510(k) devices linked to the recalls, most recalled first"),
+  recalls_without_k_number: z.number(),
+  query_urls: z.array(z.string()),
+  company: CompanySearchSchema.optional(),
+  last_updated: z.record(z.string(), nullableString),
+});
+
+type RecallGroup = z.infer<typeof RecallGroupSchema>;
+
+function groupRecalls(recalls: RecallApiRecord[], key: (r: RecallApiRecord) => string): RecallGroup[] {
+  const groups = new Map<string, { recalls: number; events: Set<string>; quantity: number; unparsed: number }>();
+  for (const r of recalls) {
+    const value = key(r);
+    const g = groups.get(value) ?? { recalls: 0, events: new Set<string>(), quantity: 0, unparsed: 0 };
+    g.recalls++;
+    g.events.add(asString(r.res_event_number) ?? asString(r.product_res_number) ?? "");
+    const quantity = parseRecallQuantity(asString(r.product_quantity));
+    if (quantity === null) g.unparsed++;
+    else g.quantity += quantity;
+    groups.set(value, g);
+  }
+  return [...groups.entries()].map(([value, g]) => ({ value, recalls: g.recalls, events: g.events.size, quantity: g.quantity, quantity_unparsed: g.unparsed }));
+}
+
+function formatRecallGroups(title: string, label: string, groups: RecallGroup[]): string[] {
+  const lines = [`### ${title}`, "", `| ${label} | Recalls | Events | Quantity | Unparsed qty |`, "|---|---:|---:|---:|---:|"];
+  for (const g of groups) {
+    lines.push(`| ${g.value.replace(/\|/g, "\\|")} | ${g.recalls} | ${g.events} | ${g.quantity.toLocaleString()} | ${g.quantity_unparsed} |`);
+  }
+  return lines;
+}
+
+server.registerTool(
+  "recall_analysis",
+  {
+    description: `Analyze every recall for a product code or recalling firm: groups recalls by root cause, status and year (recall records, distinct recall events, and total product quantity where the free-text quantity parses), then turns the recalls' linked 510(k) numbers around into a list of cleared devices with their recall count, decision date and days from clearance to first recall — which predicates have a troubled history. Recall data starts in 2002 and recall classification (Class I/II/III) is not in this data; use search_recalls with include_severity for that.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      recalling_firm: z.string().optional().describe("Company name (expanded to spelling variants)"),
+      date_from: z.string().optional().describe("Recall initiation date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Recall initiation date end (YYYY-MM-DD)"),
+    },
+    outputSchema: RecallAnalysisOutputSchema,
+  },
+  trackCall(async ({ product_code, recalling_firm, date_from, date_to }) => {
+    if (!product_code && !recalling_firm) return errorResult("Error: Provide product_code or recalling_firm.");
+    if (product_code) {
+      const err = validateProductCode(product_code);
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+
+    const company = recalling_firm ? await resolveCompany("recall", recalling_firm) : null;
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+    const searchParts = searchFilters("recall", { product_code, recalling_firm }, { recalling_firm: company?.part });
+    if (date_from || date_to) searchParts.push(dateRangePart("recall", date_from, date_to));
+
+    const all = await fetchAllPages("recall", searchParts, "event_date_initiated:desc", RECALL_ANALYSIS_MAX);
+    if (all.data.error && all.data.error.code !== "NOT_FOUND") return errorResult(formatError(all.data, all.url));
+    const queryUrls = [redactedUrl(all.url)];
+    const lastUpdated: Record<string, string | null> = { recall: all.data.meta?.last_updated ?? null };
+    const scope = [product_code?.toUpperCase(), recalling_firm && `firm "${recalling_firm}"`].filter(Boolean).join(", ");
+    if (all.records.length === 0) {
+      return structuredResult(`No recalls found for ${scope}.${companyLine}\n\n${formatFooter(all.url, all.data.meta)}`, {
+        total_recalls: 0, analyzed: 0, truncated: false, events: 0, quantity: 0, quantity_unparsed: 0,
+        by_root_cause: [], by_status: [], by_year: [], recalled_devices: [], recalls_without_k_number: 0,
+        query_urls: queryUrls, company: companySearchOutput(company), last_updated: lastUpdated,
+      });
     }
 
-    const total = data.meta?.results?.total ?? 0;
-    const lines: string[] = [`Found ${total} recall(s).\n`];
+    const byCount = (a: RecallGroup, b: RecallGroup) => b.recalls - a.recalls;
+    const overall = groupRecalls(all.records, () => "all")[0]!;
+    const byRootCause = groupRecalls(all.records, (r) => asString(r.root_cause_description) ?? "Not stated").sort(byCount);
+    const byStatus = groupRecalls(all.records, (r) => asString(r.recall_status) ?? "Not stated").sort(byCount);
+    const byYear = groupRecalls(all.records, (r) => normalizeDateResponse(r.event_date_initiated)?.slice(0, 4) ?? "Unknown")
+      .sort((a, b) => b.value.localeCompare(a.value));
+
+    // K number → the recalls that name it
+    const recallsByK = new Map<string, { number: string; initiated: string | null }[]>();
+    let withoutK = 0;
+    for (const r of all.records) {
+      const kNumbers = asStrings(r.openfda?.k_number).map((k) => k.toUpperCase());
+      if (kNumbers.length === 0) withoutK++;
+      for (const k of new Set(kNumbers)) {
+        const list = recallsByK.get(k) ?? [];
+        list.push({ number: asString(r.product_res_number) ?? "N/A", initiated: normalizeDateResponse(r.event_date_initiated) });
+        recallsByK.set(k, list);
+      }
+    }
 
-    for (const r of data.results) {
-      const initiated = r.event_date_initiated as string | undefined;
-      const posted = r.event_date_posted as string | undefined;
-      const cfresId = r.cfres_id as string;
-      const openfda = r.openfda as Record<string, unknown> | undefined;
-      const kNumbers = (openfda?.k_number as string[] | undefined)?.slice(0, 5)?.join(", ");
-
-      lines.push(`**Recall ${r.product_res_number ?? cfresId}** — ${r.recalling_firm}`);
-      lines.push(`  Product: ${(r.product_description as string)?.slice(0, 200) ?? "N/A"}`);
-      lines.push(`  Reason: ${(r.reason_for_recall as string)?.slice(0, 300) ?? "N/A"}`);
-      if (r.root_cause_description) lines.push(`  Root cause: ${r.root_cause_description}`);
-      lines.push(`  Status: ${r.recall_status} | Initiated: ${initiated ?? "N/A"} | Posted: ${posted ?? "N/A"}`);
-      lines.push(`  Quantity: ${r.product_quantity ?? "N/A"} | Distribution: ${(r.distribution_pattern as string)?.slice(0, 150) ?? "N/A"}`);
-      if (kNumbers) lines.push(`  Associated 510(k)s: ${kNumbers}`);
-      lines.push(`  FDA source: ${linkRecall(cfresId)}`);
-      lines.push("");
+    const clearances = new Map<string, PremarketApiRecord>();
+    const failedK = new Set<string>();
+    const lookupErrors: string[] = [];
+    const kNumbers = [...recallsByK.keys()].filter((k) => K_NUMBER_RE.test(k) || DEN_NUMBER_RE.test(k));
+    for (let i = 0; i < kNumbers.length; i += RECALL_K_BATCH) {
+      const batch = kNumbers.slice(i, i + RECALL_K_BATCH);
+      const { data, url } = await queryOpenFDA("510k", [`(${batch.map((k) => `k_number:${k}`).join("+")})`], { limit: batch.length });
+      queryUrls.push(redactedUrl(url));
+      if (data.error && data.error.code !== "NOT_FOUND") {
+        for (const k of batch) failedK.add(k);
+        lookupErrors.push(data.error.message ?? data.error.code ?? "unknown error");
+        continue;
+      }
+      lastUpdated["510k"] ??= data.meta?.last_updated ?? null;
+      for (const k of data.results ?? []) {
+        const number = asString(k.k_number)?.toUpperCase();
+        if (number) clearances.set(number, k);
+      }
     }
 
-    lines.push(formatFooter(url, data.meta));
-    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
-  }
+    const recalledDevices = [...recallsByK.entries()]
+      .map(([k, recalls]) => {
+        const clearance = clearances.get(k);
+        const decisionDate = clearance ? normalizeDateResponse(clearance.decision_date) : null;
+        const firstRecall = recalls.map((r) => r.initiated).filter((d): d is string => d !== null).sort()[0] ?? null;
+        return {
+          k_number: k,
+          device_name: clearance ? asString(clearance.device_name) : null,
+          applicant: clearance ? asString(clearance.applicant) : null,
+          decision_date: decisionDate,
+          recalls: recalls.length,
+          first_recall: firstRecall,
+          days_to_first_recall: decisionDate && firstRecall ? daysBetween(decisionDate, firstRecall) : null,
+          recall_numbers: recalls.map((r) => r.number),
+          source_url: link510kRecord(k),
+          lookup_failed: failedK.has(k),
+        };
+      })
+      .sort((a, b) => b.recalls - a.recalls || (a.days_to_first_recall ?? Infinity) - (b.days_to_first_recall ?? Infinity));
+
+    const lines: string[] = [
+      `## Recall analysis — ${scope}${date_from || date_to ? ` (initiated ${date_from ?? "2002"} to ${date_to ?? "today"})` : ""}${companyLine}`,
+      `${all.total.toLocaleString()} product recall record(s) in ${overall.events.toLocaleString()} recall event(s); total quantity ${overall.quantity.toLocaleString()} where stated as a number (${overall.quantity_unparsed} record(s) with free-text quantities not counted).`,
+    ];
+    if (all.truncated) lines.push(`_Analyzed the latest ${all.records.length.toLocaleString()} records only._`);
+    lines.push("", ...formatRecallGroups("By root cause", "Root cause", byRootCause));
+    lines.push("", ...formatRecallGroups("By status", "Status", byStatus));
+    lines.push("", ...formatRecallGroups("By year initiated", "Year", byYear));
+
+    lines.push("", `### Cleared devices with recalls (${recalledDevices.length})`);
+    if (recalledDevices.length === 0) {
+      lines.push("No recall names a 510(k) number.");
+    } else {
+      lines.push("", "| 510(k) | Device | Applicant | Decision | Recalls | First recall | Days to first recall |", "|---|---|---|---|---:|---|---:|");
+      for (const d of recalledDevices.slice(0, RECALLED_DEVICES_SHOWN)) {
+        lines.push(`| [${d.k_number}](${d.source_url}) | ${d.device_name ?? (d.lookup_failed ? "510(k) lookup failed" : "not in 510(k) data")} | ${d.applicant ?? "N/A"} | ${d.decision_date ?? "N/A"} | ${d.recalls} | ${d.first_recall ?? "N/A"} | ${d.days_to_first_recall ?? "N/A"} |`);
+      }
+      if (recalledDevices.length > RECALLED_DEVICES_SHOWN) lines.push(`_${recalledDevices.length - RECALLED_DEVICES_SHOWN} more in the structured output._`);
+    }
+    if (failedK.size) {
+      lines.push("", `_The 510(k) lookup failed for ${failedK.size} number(s) (${[...new Set(lookupErrors)].join("; ")}); their device, decision date and days to first recall are unknown, not missing — retry to fill them in._`);
+    }
+    if (withoutK) lines.push("", `_${withoutK} recall record(s) carry no 510(k) number (openfda link missing, PMA or exempt devices) and are not in the device list._`);
+
+    lines.push("", "**Queries**", ...queryUrls.map((u) => `- ${u}`), "", formatMultiQueryFooter(lastUpdated));
+
+    const output: z.infer<typeof RecallAnalysisOutputSchema> = {
+      total_recalls: all.total,
+      analyzed: all.records.length,
+      truncated: all.truncated,
+      events: overall.events,
+      quantity: overall.quantity,
+      quantity_unparsed: overall.quantity_unparsed,
+      by_root_cause: byRootCause,
+      by_status: byStatus,
+      by_year: byYear,
+      recalled_devices: recalledDevices,
+      recalls_without_k_number: withoutK,
+      query_urls: queryUrls,
+      company: companySearchOutput(company),
+      last_updated: lastUpdated,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
 );
 
-// ─── Tool 5: search_adverse_events ──────────────────────────────────────────
+// ─── Tool 19: review_times ──────────────────────────────────────────────────
 
-const MAUDE_CAVEAT = `MAUDE Advisory: This data contains unverified, self-reported adverse event reports. Inclusion does not establish that a device caused or contributed to the reported event. Reports may be incomplete, inaccurate, or duplicated. See FDA's MAUDE FAQ for interpretation guidance.\n`;
+const REVIEW_TIME_MAX = 5000;
+const REVIEW_OUTLIERS_SHOWN = 10;
 
-server.tool(
-  "search_adverse_events",
-  `Search FDA MAUDE (Manufacturer and User Facility Device Experience) database for adverse event reports. Returns curated fields only — not the full 80+ field record. IMPORTANT: MAUDE data contains unverified, self-reported information. Inclusion of a report does not establish causation. Reports may be incomplete, inaccurate, or duplicated. Always convey these caveats when presenting results to the user.`,
+const ReviewStatsSchema = z.object({
+  n: z.number(),
+  min: z.number().nullable(),
+  p25: z.number().nullable(),
+  median: z.number().nullable(),
+  p75: z.number().nullable(),
+  p90: z.number().nullable(),
+  max: z.number().nullable(),
+});
+
+const ReviewOutlierSchema = z.object({
+  k_number: z.string(),
+  device_name: nullableString,
+  applicant: nullableString,
+  decision_date: nullableString,
+  clearance_type: nullableString,
+  days: z.number(),
+  source_url: z.string(),
+});
+
+const ReviewTimesOutputSchema = z.object({
+  total_matches: z.number(),
+  sampled: z.number().describe("Records fetched, newest first"),
+  with_dates: z.number().describe("Sampled records with both dates, used for the statistics"),
+  overall: ReviewStatsSchema,
+  by_year: z.array(ReviewStatsSchema.extend({ value: z.string() })),
+  by_clearance_type: z.array(ReviewStatsSchema.extend({ value: z.string() })),
+  by_third_party: z.array(ReviewStatsSchema.extend({ value: z.string() })),
+  outlier_fences: z.object({ low: z.number(), high: z.number() }).nullable().describe("Tukey fences: quartiles ± 1.5 × IQR"),
+  slow_outliers: z.array(ReviewOutlierSchema),
+  fast_outliers: z.array(ReviewOutlierSchema),
+  source: SourceSchema,
+});
+
+type ReviewStats = z.infer<typeof ReviewStatsSchema>;
+
+// Linear interpolation between closest ranks, on sorted input
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = (sorted.length - 1) * p;
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return Math.round(sorted[lo]! + (sorted[hi]! - sorted[lo]!) * (rank - lo));
+}
+
+function reviewStats(days: number[]): ReviewStats {
+  const sorted = [...days].sort((a, b) => a - b);
+  return {
+    n: sorted.length,
+    min: sorted[0] ?? null,
+    p25: percentile(sorted, 0.25),
+    median: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+    max: sorted.at(-1) ?? null,
+  };
+}
+
+function formatStatsRow(label: string, st: ReviewStats): string {
+  const v = (n: number | null) => (n === null ? "—" : String(n));
+  return `| ${label} | ${st.n} | ${v(st.median)} | ${v(st.p25)} | ${v(st.p75)} | ${v(st.p90)} | ${v(st.min)} | ${v(st.max)} |`;
+}
+
+server.registerTool(
+  "review_times",
   {
-    product_code: z.string().optional().describe("3-letter FDA product code"),
-    brand_name: z.string().optional().describe("Device brand name"),
-    manufacturer: z.string().optional().describe("Manufacturer name"),
-    event_type: z.enum(["Death", "Injury", "Malfunction", "Other"]).optional().describe("Event type"),
-    report_source: z.enum(["Manufacturer report", "Voluntary report", "User facility report", "Distributor report"]).optional().describe("Report source"),
-    date_from: z.string().optional().describe("Date received start (YYYY-MM-DD)"),
-    date_to: z.string().optional().describe("Date received end (YYYY-MM-DD)"),
-    limit: z.number().min(1).max(50).optional().describe("Results to return (default 10)"),
+    description: `How long does FDA take to clear a 510(k) for this kind of device? Pages through the matching 510(k) decisions (newest first, up to ${REVIEW_TIME_MAX.toLocaleString()}) and reports the distribution of days from receipt to decision — median, P25/P75/P90, min/max — overall and by decision year, clearance type (Traditional/Special/Abbreviated) and third-party review, plus outliers beyond the Tukey fences. Days are calendar days and include time the submission sat on hold waiting for the sponsor's answers, so they exceed FDA's own review-clock figures. Panel codes: ${PANEL_LIST}.`,
+    inputSchema: {
+      product_code: z.string().optional().describe("3-letter FDA product code"),
+      advisory_committee: z.string().optional().describe("Panel code (e.g., 'CV', 'SU', 'OR')"),
+      applicant: z.string().optional().describe("Company name (expanded to spelling variants)"),
+      clearance_type: z.enum(["Traditional", "Special", "Abbreviated"]).optional().describe("Only this clearance type"),
+      decision: z.enum(["SESE", "SEKN", "SESD", "DENG"]).optional().describe("Decision code (default SESE — cleared)"),
+      date_from: z.string().optional().describe("Decision date start (YYYY-MM-DD)"),
+      date_to: z.string().optional().describe("Decision date end (YYYY-MM-DD)"),
+    },
+    outputSchema: ReviewTimesOutputSchema,
   },
-  async ({ product_code, brand_name, manufacturer, event_type, report_source, date_from, date_to, limit }) => {
-    if (!product_code && !brand_name && !manufacturer) {
-      return { content: [{ type: "text" as const, text: "Error: Provide at least one of product_code, brand_name, or manufacturer." }] };
+  trackCall(async ({ product_code, advisory_committee, applicant, clearance_type, decision, date_from, date_to }) => {
+    if (!product_code && !advisory_committee && !applicant) {
+      return errorResult("Error: Provide at least one of product_code, advisory_committee, or applicant.");
     }
-
     if (product_code) {
       const err = validateProductCode(product_code);
-      if (err) return { content: [{ type: "text" as const, text: `Validation error: ${err}` }] };
+      if (err) return errorResult(`Validation error: ${err}`);
+    }
+    if (date_from) { const err = validateDate(date_from); if (err) return errorResult(`Validation error (date_from): ${err}`); }
+    if (date_to) { const err = validateDate(date_to); if (err) return errorResult(`Validation error (date_to): ${err}`); }
+
+    const company = applicant ? await resolveCompany("510k", applicant) : null;
+    const companyLine = company ? `\n${formatCompanySearch(company)}` : "";
+    const decisionCode = decision ?? "SESE";
+    const searchParts = searchFilters("510k", { product_code, advisory_committee, applicant, clearance_type, decision: decisionCode }, { applicant: company?.part });
+    if (date_from || date_to) searchParts.push(dateRangePart("510k", date_from, date_to));
+
+    const all = await fetchAllPages("510k", searchParts, "decision_date:desc", REVIEW_TIME_MAX);
+    if (all.data.error && all.data.error.code !== "NOT_FOUND") return errorResult(formatError(all.data, all.url));
+
+    const timed = all.records
+      .map(toPremarketNotification)
+      .filter((k): k is typeof k & { days_to_decision: number } => k.days_to_decision !== null && k.days_to_decision >= 0);
+    const overall = reviewStats(timed.map((k) => k.days_to_decision));
+
+    const breakdown = (key: (k: (typeof timed)[number]) => string) => {
+      const groups = new Map<string, number[]>();
+      for (const k of timed) groups.set(key(k), [...(groups.get(key(k)) ?? []), k.days_to_decision]);
+      return [...groups.entries()].map(([value, days]) => ({ value, ...reviewStats(days) }));
+    };
+    const byYear = breakdown((k) => k.decision_date?.slice(0, 4) ?? "Unknown").sort((a, b) => b.value.localeCompare(a.value));
+    const byType = breakdown((k) => k.clearance_type ?? "Not stated").sort((a, b) => b.n - a.n);
+    const thirdParty = new Set(all.records.filter((r) => asString(r.third_party_flag) === "Y").map((r) => asString(r.k_number)));
+    const byThirdParty = breakdown((k) => (thirdParty.has(k.k_number) ? "Third-party review" : "FDA review")).sort((a, b) => b.n - a.n);
+
+    let fences: { low: number; high: number } | null = null;
+    let slow: z.infer<typeof ReviewOutlierSchema>[] = [];
+    let fast: z.infer<typeof ReviewOutlierSchema>[] = [];
+    if (overall.p25 !== null && overall.p75 !== null && timed.length >= 4) {
+      const iqr = overall.p75 - overall.p25;
+      fences = { low: Math.max(0, Math.round(overall.p25 - 1.5 * iqr)), high: Math.round(overall.p75 + 1.5 * iqr) };
+      const toOutlier = (k: (typeof timed)[number]) => ({
+        k_number: k.k_number ?? "N/A",
+        device_name: k.device_name,
+        applicant: k.applicant,
+        decision_date: k.decision_date,
+        clearance_type: k.clearance_type,
+        days: k.days_to_decision,
+        source_url: k.source_url ?? link510kRecord(k.k_number ?? ""),
+      });
+      slow = timed.filter((k) => k.days_to_decision > fences!.high).sort((a, b) => b.days_to_decision - a.days_to_decision).map(toOutlier);
+      fast = timed.filter((k) => k.days_to_decision < fences!.low).sort((a, b) => a.days_to_decision - b.days_to_decision).map(toOutlier);
     }
-    if (date_from) { const err = validateDate(date_from); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_from): ${err}` }] }; }
-    if (date_to) { const err = validateDate(date_to); if (err) return { content: [{ type: "text" as const, text: `Validation error (date_to): ${err}` }] }; }
 
-    const searchParts: string[] = [];
-    if (product_code) searchParts.push(`device.device_report_product_code:${product_code.toUpperCase()}`);
-    if (brand_name) searchParts.push(`device.brand_name:"${brand_name}"`);
-    if (manufacturer) searchParts.push(`device.manufacturer_d_name:"${manufacturer}"`);
-    if (event_type) searchParts.push(`event_type:"${event_type}"`);
-    if (report_source) searchParts.push(`report_source_code:"${report_source}"`);
-    if (date_from || date_to) {
-      const from = stripDashes(date_from ?? "2000-01-01");
-      const to = stripDashes(date_to ?? new Date().toISOString().slice(0, 10));
-      searchParts.push(`date_received:[${from}+TO+${to}]`);
+    const scope = [product_code?.toUpperCase(), advisory_committee && `panel ${advisory_committee.toUpperCase()}`, applicant && `applicant "${applicant}"`, clearance_type].filter(Boolean).join(", ");
+    const lines: string[] = [
+      `## 510(k) review times — ${scope} (decision ${decisionCode}${date_from || date_to ? `, ${date_from ?? "1976"} to ${date_to ?? "today"}` : ""})${companyLine}`,
+      `${all.total.toLocaleString()} matching decision(s); sampled the newest ${all.records.length.toLocaleString()}${all.truncated ? " (not all)" : ""}, ${timed.length.toLocaleString()} with both dates. Days are calendar days from receipt to decision, including time on hold.`,
+    ];
+    if (timed.length === 0) {
+      lines.push("", "No records with both a received and a decision date.");
+    } else {
+      const table = (title: string, label: string, rows: (ReviewStats & { value: string })[]) => {
+        lines.push("", `### ${title}`, "", `| ${label} | Decisions | Median | P25 | P75 | P90 | Min | Max |`, "|---|---:|---:|---:|---:|---:|---:|---:|");
+        for (const row of rows) lines.push(formatStatsRow(row.value, row));
+      };
+      table("Overall (days)", "", [{ value: "All", ...overall }]);
+      table("By decision year", "Year", byYear);
+      table("By clearance type", "Clearance type", byType);
+      table("By review route", "Route", byThirdParty);
+
+      if (fences) {
+        lines.push("", `### Outliers (outside ${fences.low}–${fences.high} days)`);
+        if (slow.length === 0 && fast.length === 0) lines.push("None.");
+        for (const o of slow.slice(0, REVIEW_OUTLIERS_SHOWN)) {
+          lines.push(`- Slow: ${o.k_number} — ${o.device_name ?? "N/A"} (${o.applicant ?? "N/A"}, ${o.clearance_type ?? "N/A"}, decided ${o.decision_date ?? "N/A"}): ${o.days} days ${o.source_url}`);
+        }
+        for (const o of fast.slice(0, REVIEW_OUTLIERS_SHOWN)) {
+          lines.push(`- Fast: ${o.k_number} — ${o.device_name ?? "N/A"} (${o.applicant ?? "N/A"}, ${o.clearance_type ?? "N/A"}, decided ${o.decision_date ?? "N/A"}): ${o.days} days ${o.source_url}`);
+        }
+        const hidden = Math.max(0, slow.length - REVIEW_OUTLIERS_SHOWN) + Math.max(0, fast.length - REVIEW_OUTLIERS_SHOWN);
+        if (hidden) lines.push(`_${hidden} more outlier(s) in the structured output._`);
+      }
     }
+    lines.push("", formatFooter(all.url, all.data.meta));
+
+    const output: z.infer<typeof ReviewTimesOutputSchema> = {
+      total_matches: all.total,
+      sampled: all.records.length,
+      with_dates: timed.length,
+      overall,
+      by_year: byYear,
+      by_clearance_type: byType,
+      by_third_party: byThirdParty,
+      outlier_fences: fences,
+      slow_outliers: slow,
+      fast_outliers: fast,
+      source: sourceInfo(all.url, all.data.meta),
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
 
-    const { data, url } = await queryOpenFDA("event", searchParts, {
-      limit: limit ?? 10,
-      sort: "date_received:desc",
-    });
+// ─── Tool 20: advanced_search ───────────────────────────────────────────────
+// Boolean expressions over one endpoint. The expression is parsed and checked
+// against EXPRESSION_FIELDS first (see Search Expressions), then sent as a single
+// search part; records reuse each endpoint's mapper and get a one-line summary.
 
-    if (data.error) return { content: [{ type: "text" as const, text: `${MAUDE_CAVEAT}\n${formatError(data, url)}` }] };
-    if (!data.results?.length) {
-      return { content: [{ type: "text" as const, text: `${MAUDE_CAVEAT}\nNo adverse event records found.\n\n${formatFooter(url, data.meta)}` }] };
+type AdvancedRecord = { record: Record<string, unknown>; line: string };
+
+const ADVANCED_SEARCH_ENDPOINTS: Record<string, (r: Record<string, unknown>) => AdvancedRecord> = {
+  classification: (r) => {
+    const c = toClassificationRecord(r);
+    return { record: c, line: `${c.product_code ?? "N/A"} — ${c.device_name ?? "N/A"} (Class ${c.device_class ?? "N/A"}, 21 CFR ${c.regulation_number ?? "N/A"}) ${c.source_url}` };
+  },
+  "510k": (r) => {
+    const k = toPremarketNotification(r);
+    return { record: k, line: `${k.k_number ?? "N/A"} — ${k.device_name ?? "N/A"} (${k.applicant ?? "N/A"}) ${k.decision_code ?? "N/A"} ${k.decision_date ?? "N/A"} ${k.source_url}` };
+  },
+  pma: (r) => {
+    const p = toPMARecord(r);
+    const number = `${p.pma_number ?? "N/A"}${p.supplement_number ? `/${p.supplement_number}` : ""}`;
+    return { record: p, line: `${number} — ${p.trade_name ?? "N/A"} (${p.applicant ?? "N/A"}) ${p.decision_code ?? "N/A"} ${p.decision_date ?? "N/A"} ${p.source_url}` };
+  },
+  recall: (r) => {
+    const rc = toRecallRecord(r);
+    return { record: rc, line: `${rc.recall_number ?? rc.cfres_id ?? "N/A"} — ${rc.recalling_firm ?? "N/A"}: ${rc.product_description?.slice(0, 100) ?? "N/A"} (${rc.recall_status ?? "N/A"}, initiated ${rc.event_date_initiated ?? "N/A"}) ${rc.source_url}` };
+  },
+  enforcement: (r) => {
+    const e = toEnforcementRecord(r);
+    return { record: e, line: `${e.recall_number ?? "N/A"} — ${e.classification ?? "N/A"}, ${e.recalling_firm ?? "N/A"}: ${e.product_description?.slice(0, 100) ?? "N/A"} (${e.status ?? "N/A"}) ${e.source_url}` };
+  },
+  udi: (r) => {
+    const u = toUDIRecord(r);
+    return { record: u, line: `${u.primary_di ?? "N/A"} — ${u.brand_name ?? "N/A"} ${u.version_or_model_number ?? ""} (${u.company_name ?? "N/A"}) ${u.source_url}` };
+  },
+  registrationlisting: (r) => {
+    const e = toRegistrationRecord(r);
+    return { record: e, line: `${e.name ?? "N/A"} — registration ${e.registration_number ?? "N/A"}, FEI ${e.fei_number ?? "N/A"}, ${e.country_code ?? "N/A"} ${e.source_url}` };
+  },
+  event: (r) => {
+    const a = toAdverseEventRecord(r);
+    return { record: a, line: `${a.report_number ?? a.mdr_report_key ?? "N/A"} — ${a.event_type ?? "N/A"}, ${a.brand_name ?? "N/A"} (${a.manufacturer ?? "N/A"}), received ${a.date_received ?? "N/A"} ${a.source_url}` };
+  },
+};
+
+const AdvancedSearchOutputSchema = z.object({
+  endpoint: z.string(),
+  search: z.string().describe("Compiled openFDA search string sent for the expression"),
+  total: z.number(),
+  skip: z.number(),
+  records: z.array(z.record(z.string(), z.unknown())).describe("Records in the same shape as the endpoint's search tool"),
+  source: SourceSchema,
+  caveat: z.string().optional().describe("MAUDE caveat for event results — convey it with the data"),
+});
+
+server.registerTool(
+  "advanced_search",
+  {
+    description: `Search one openFDA device endpoint with a boolean expression when the fixed filters of the other search tools aren't enough. Syntax: field:value, field:"quoted phrase", field:[low TO high] (dates as YYYY-MM-DD, * for an open end), _exists_:field, _missing_:field, combined with AND, OR, NOT and parentheses (adjacent clauses are ANDed; append .exact for whole-value matches). Fields are checked against the endpoint's searchable fields — an unknown field returns suggestions — and dates are converted to the endpoint's format. Example (event): device.device_report_product_code:DXY AND event_type:Death AND NOT device.manufacturer_d_name:acme AND date_received:[2023-01-01 TO *].`,
+    inputSchema: {
+      endpoint: z.enum(["classification", "510k", "pma", "recall", "enforcement", "udi", "registrationlisting", "event"]).describe("openFDA device endpoint to search"),
+      query: z.string().min(1).describe("Boolean expression, e.g. 'openfda.regulation_number:870.3610 AND (decision_date:[2020-01-01 TO *] OR third_party_flag:Y)'"),
+      sort: z.string().optional().describe("field:asc or field:desc (e.g. 'decision_date:desc')"),
+      limit: z.number().int().min(1).max(100).optional().describe("Max results (default 10, max 100)"),
+      skip: z.number().int().min(0).max(MAX_SKIP).optional().describe("Records to skip for pagination"),
+    },
+    outputSchema: AdvancedSearchOutputSchema,
+  },
+  trackCall(async ({ endpoint, query, sort, limit, skip }) => {
+    let search: string;
+    try {
+      search = compileExpression(endpoint, parseExpression(query));
+    } catch (err) {
+      if (err instanceof ExpressionError) return errorResult(`Query error: ${err.message}`);
+      throw err;
+    }
+    if (sort) {
+      const [field, order] = sort.trim().split(":");
+      const spec = EXPRESSION_FIELDS[endpoint]!;
+      if (!field || (order !== "asc" && order !== "desc")) return errorResult(`Validation error: sort must be field:asc or field:desc (got "${sort}").`);
+      if (!spec.text.includes(field.replace(/\.exact$/, "")) && !spec.dates.includes(field)) return errorResult(`Validation error: ${suggestFields(endpoint, field)}`);
     }
 
+    const { data, url } = await queryOpenFDA(endpoint, [search], { limit: limit ?? 10, skip, sort: sort?.trim() });
+    const caveat = endpoint === "event" ? MAUDE_CAVEAT : "";
+    if (data.error && data.error.code !== "NOT_FOUND") return errorResult(`${caveat}${formatError(data, url)}`);
+
+    const mapped = (data.results ?? []).map(ADVANCED_SEARCH_ENDPOINTS[endpoint]!);
     const total = data.meta?.results?.total ?? 0;
-    const lines: string[] = [MAUDE_CAVEAT, `Found ${total} adverse event report(s).\n`];
+    const start = skip ?? 0;
+    const lines: string[] = [];
+    if (caveat) lines.push(caveat);
+    lines.push(`## ${endpoint}: ${query}`, `Search: ${search}`, "");
+    if (mapped.length === 0) {
+      lines.push("No records match.");
+    } else {
+      const end = start + mapped.length;
+      lines.push(`Found ${total} record(s). Showing ${start + 1}–${end}.${end < total && end <= MAX_SKIP ? ` Next page: skip ${end}.` : ""}`, "");
+      for (const { line } of mapped) lines.push(`- ${line}`);
+    }
+    lines.push("", formatFooter(url, data.meta));
+
+    const output: z.infer<typeof AdvancedSearchOutputSchema> = {
+      endpoint,
+      search,
+      total,
+      skip: start,
+      records: mapped.map(({ record }) => record),
+      source: sourceInfo(url, data.meta),
+      caveat: caveat ? caveat.trim() : undefined,
+    };
+    return structuredResult(lines.join("\n"), output);
+  })
+);
 
-    for (const r of data.results) {
-      const devices = r.device as Record<string, unknown>[] | undefined;
-      const device = devices?.[0] ?? {};
-      const patients = r.patient as Record<string, unknown>[] | undefined;
-      const patient = patients?.[0];
-      const mdrTexts = r.mdr_text as Record<string, unknown>[] | undefined;
-      const eventDesc = mdrTexts?.find((t) => t.text_type_code === "Description of Event or Problem");
+// ─── Tool 21: manage_synonyms ───────────────────────────────────────────────
+// Lists, adds to and tests the synonym map behind classify_device. Additions go
+// to the user's synonym file, which loadSynonyms picks up on the next call.
 
-      const dateOfEvent = normalizeDateResponse(r.date_of_event as string);
-      const dateReceived = normalizeDateResponse(r.date_received as string);
-      const patientOutcome = patient
-        ? ((patient.sequence_number_outcome as string[]) ?? []).join(", ").trim()
-        : "N/A";
-      const mdrKey = r.mdr_report_key as string;
+const SynonymEntrySchema = z.object({
+  term: z.string(),
+  synonyms: z.array(z.string()),
+  source: z.enum(["built-in", "user", "user override"]).describe("user override: the file replaces a built-in entry"),
+});
 
-      lines.push(`**${r.report_number}** — ${r.event_type}`);
-      lines.push(`  Device: ${device.brand_name ?? "N/A"} (${device.generic_name ?? "N/A"})`);
-      lines.push(`  Manufacturer: ${device.manufacturer_d_name ?? "N/A"} | Model: ${device.model_number ?? "N/A"}`);
-      lines.push(`  Product code: ${device.device_report_product_code ?? "N/A"}`);
-      lines.push(`  Date of event: ${dateOfEvent ?? "N/A"} | Date received: ${dateReceived ?? "N/A"}`);
-      lines.push(`  Patient outcome: ${patientOutcome || "N/A"}`);
-      lines.push(`  Report source: ${r.report_source_code ?? "N/A"}`);
-      if (eventDesc) {
-        const text = (eventDesc.text as string)?.slice(0, 400) ?? "";
-        lines.push(`  Description: ${text}${text.length >= 400 ? "..." : ""}`);
-      }
-      lines.push(`  FDA source: ${linkMAUDE(mdrKey)}`);
-      lines.push("");
-    }
+const ManageSynonymsOutputSchema = z.object({
+  action: z.enum(["list", "add", "test"]),
+  file: z.string().describe("User synonym file"),
+  entries: z.array(SynonymEntrySchema).describe("list: matching entries; add: the entry as saved; test: entries the query matched"),
+  expanded_terms: z.array(z.string()).optional().describe("test: terms classify_device searches after expansion"),
+  classification: z.object({
+    found_via: z.enum(["classification", "510k_bridge", "none"]),
+    product_codes: z.array(z.string()),
+  }).optional().describe("test: what classify_device finds for the query"),
+  source: SourceSchema.optional(),
+});
 
-    lines.push(formatFooter(url, data.meta));
-    return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+type SynonymEntry = z.infer<typeof SynonymEntrySchema>;
+
+function synonymEntry(term: string): SynonymEntry | null {
+  const { user, merged } = loadSynonyms();
+  const synonyms = merged.get(term);
+  if (!synonyms) return null;
+  const source = !user.has(term) ? "built-in" : Object.hasOwn(SYNONYMS, term) ? "user override" : "user";
+  return { term, synonyms, source };
+}
+
+function formatSynonymEntry(e: SynonymEntry): string {
+  return `- "${e.term}" → ${e.synonyms.map((s) => `"${s}"`).join(", ")}${e.source === "built-in" ? "" : ` _(${e.source})_`}`;
+}
+
+// Rewrites the file with one entry changed; refuses to touch a file it can't parse
+async function saveUserSynonym(term: string, synonyms: string[]): Promise<string | null> {
+  const path = CONFIG.synonymsFile;
+  let file: Record<string, unknown> = {};
+  if (existsSync(path)) {
+    try {
+      file = JSON.parse(await readFile(path, "utf8")) as Record<string, unknown>;
+    } catch (err) {
+      return `${path} is not valid JSON (${err}). Fix or remove it before adding synonyms.`;
+    }
   }
+  file[term] = synonyms;
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(file, null, 2)}\n`);
+  return null;
+}
+
+server.registerTool(
+  "manage_synonyms",
+  {
+    description: `List, add or test the synonyms classify_device uses to turn everyday terms into FDA classification names (e.g. "ecg" → "electrocardiograph", "deep learning" → "machine learning"). Keys may be several words. Added entries go to the user's synonym file (config synonyms_file), are merged with the built-in set — a user key replaces the built-in one — and apply on the next call. "test" shows how a query is expanded and what classify_device then finds. When classify_device falls back to its 510(k) bridge it suggests a synonym candidate; add it here to approve it.`,
+    inputSchema: {
+      action: z.enum(["list", "add", "test"]).describe("list entries, add an entry, or test a query"),
+      term: z.string().optional().describe("add: the user term (one or more words); list: only keys containing this text"),
+      synonyms: z.array(z.string()).optional().describe("add: FDA terms the user term maps to (e.g. ['phacoemulsification'])"),
+      query: z.string().optional().describe("test: a device description as you would pass to classify_device"),
+    },
+    outputSchema: ManageSynonymsOutputSchema,
+  },
+  trackCall(async ({ action, term, synonyms, query }) => {
+    const file = CONFIG.synonymsFile;
+
+    if (action === "list") {
+      const filter = term ? normalizeSynonymKey(term) : "";
+      const entries = [...loadSynonyms().merged.keys()]
+        .filter((key) => key.includes(filter))
+        .sort()
+        .map((key) => synonymEntry(key)!);
+      const userCount = entries.filter((e) => e.source !== "built-in").length;
+      const lines = [
+        `## Synonyms${filter ? ` matching "${filter}"` : ""} — ${entries.length} entr${entries.length === 1 ? "y" : "ies"} (${userCount} from ${file})`,
+        "",
+        ...(entries.length ? entries.map(formatSynonymEntry) : ["None."]),
+      ];
+      const output: z.infer<typeof ManageSynonymsOutputSchema> = { action, file, entries };
+      return structuredResult(lines.join("\n"), output);
+    }
+
+    if (action === "add") {
+      const key = term ? normalizeSynonymKey(term) : "";
+      const values = (synonyms ?? []).map(normalizeSynonymKey).filter(Boolean);
+      if (!key || values.length === 0) return errorResult("Error: add needs a term and at least one synonym (letters, digits, spaces and hyphens).");
+
+      // Adding to an existing key keeps what it already maps to
+      const existing = loadSynonyms().merged.get(key) ?? [];
+      const merged = [...new Set([...existing, ...values])];
+      const err = await saveUserSynonym(key, merged);
+      if (err) return errorResult(`Error: ${err}`);
+      const entry = synonymEntry(key) ?? { term: key, synonyms: merged, source: "user" as const };
+      const lines = [
+        `Saved to ${file}:`,
+        formatSynonymEntry(entry),
+        "",
+        `Expansion of "${key}": ${expandSynonyms(key.split(" ")).join(" ")}. Check the result with action "test".`,
+      ];
+      const output: z.infer<typeof ManageSynonymsOutputSchema> = { action, file, entries: [entry] };
+      return structuredResult(lines.join("\n"), output);
+    }
+
+    if (!query?.trim()) return errorResult("Error: test needs a query.");
+    const terms = query.replace(/[.\/\\@#$%^&*(){}[\]|<>~`]/g, " ").trim().split(/\s+/);
+    const segments = matchSynonyms(terms);
+    const entries = [...new Set(segments.flatMap((seg) => (seg.key ? [seg.key] : [])))].map((key) => synonymEntry(key)!);
+    const expandedTerms = expandSynonyms(terms);
+
+    const found = await searchClassificationByQuery(query, undefined, 5);
+    const searchError = classificationSearchError(found);
+    if (searchError) return errorResult(searchError);
+    let classification: NonNullable<z.infer<typeof ManageSynonymsOutputSchema>["classification"]>;
+    let source: z.infer<typeof SourceSchema> | undefined;
+    if (found.kind === "classification") {
+      classification = { found_via: "classification", product_codes: (found.data.results ?? []).map((r) => asString(r.product_code)).filter((pc): pc is string => pc !== null) };
+      source = sourceInfo(found.url, found.data.meta);
+    } else if (found.kind === "bridge") {
+      classification = { found_via: "510k_bridge", product_codes: found.bridge.output.records.map((r) => r.product_code).filter((pc): pc is string => pc !== null) };
+      source = found.bridge.output.source;
+    } else {
+      classification = { found_via: "none", product_codes: [] };
+    }
+
+    const lines = [
+      `## Synonym test: "${query}"`,
+      "",
+      entries.length ? "Matched synonyms:" : "Matched synonyms: none",
+      ...entries.map(formatSynonymEntry),
+      `Expanded terms: ${expandedTerms.join(" ")}`,
+      "",
+      classification.found_via === "none"
+        ? "classify_device finds nothing for this query."
+        : `classify_device finds ${classification.product_codes.join(", ") || "no product codes"}${classification.found_via === "510k_bridge" ? " — only through the 510(k) bridge" : " in classification search"}.`,
+    ];
+    if (found.kind === "bridge" && found.bridge.output.synonym_candidate) {
+      const c = found.bridge.output.synonym_candidate;
+      lines.push(`Candidate: "${c.term}" → ${JSON.stringify(c.synonyms)} (${c.product_code}) — add it with action "add".`);
+    }
+    if (source) lines.push("", formatFooter(source.query_url, { last_updated: source.last_updated ?? undefined }));
+
+    const output: z.infer<typeof ManageSynonymsOutputSchema> = { action, file, entries, expanded_terms: expandedTerms, classification, source };
+    return structuredResult(lines.join("\n"), output);
+  })
 );
 
 // ─── Start Server ────────────────────────────────────────────────────────────
+// `bun run index.ts import <files>` builds the bulk-data index instead of serving.
+// Imported (by index.test.ts), the module only defines things.
+
+if (import.meta.main) {
+  if (process.argv[2] === "import") process.exit(await importBulkData(process.argv.slice(3)));
+
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+}
 
-const transport = new StdioServerTransport();
-await server.connect(transport);
+export { compileExpression, dateRangePart, importBulkData, parseExpression, queryBulkIndex, queryOpenFDA, resolveCompany };